@@ -1,8 +1,27 @@
-import type { IR } from '../core/ir.ts';
+import type { AnySchema } from 'ajv';
+import type { Hook, HookTool, IR } from '../core/ir.ts';
 
 export interface OutputFile {
   path: string;
   content: string;
+  /** Source paths of the rules, commands, skills, or agents the file was made from, for the manifest */
+  sources?: string[];
+  /** Write the file with the executable bit set (hook scripts) */
+  executable?: boolean;
+  /**
+   * An ignore file the user may edit too: the content goes in an agentrc managed block and
+   * the rest of the file is kept
+   */
+  ignoreFile?: boolean;
+  /**
+   * A YAML config the user may edit too (.aider.conf.yml): the keys go in an agentrc managed
+   * block and the rest of the file is kept, unless it already sets one of them
+   */
+  yamlBlock?: boolean;
+  /** A file users often write by hand (CLAUDE.md): an existing one agentrc didn't generate is left alone */
+  keepExisting?: boolean;
+  /** Written instead when a `keepExisting` file is left alone, so what it holds isn't lost */
+  fallback?: OutputFile[];
 }
 
 export interface AdapterResult {
@@ -12,7 +31,40 @@ export interface AdapterResult {
   degradedFeatures: string[];
 }
 
-export interface Adapter {
+/** Per-target options from a `targets` entry in config.yaml (`{ name, options }`). */
+export type AdapterOptions = Record<string, unknown>;
+
+/** An event to replay through a platform's hooks (`agentrc hooks run`) */
+export interface SimulatedHookEvent {
+  /** Absolute path of the project root */
+  rootDir: string;
+  /** Tool behind the event (tool events only) */
+  tool?: HookTool;
+  /** Absolute path of the file the tool touched */
+  file?: string;
+  /** Shell command the tool is about to run */
+  command?: string;
+  /** Prompt being submitted */
+  prompt?: string;
+}
+
+/** How a platform runs hooks, for adapters that emit native hooks */
+export interface HookSimulation {
+  /** The native event a hook runs on when `tool` fires it, or undefined when the platform skips it */
+  nativeEvent(hook: Hook, tool: HookTool | undefined): string | undefined;
+  /** The command the platform runs for a hook on a native event */
+  command(hook: Hook, nativeEvent: string): string;
+  /** A payload shaped like the one the platform sends on a native event */
+  payload(nativeEvent: string, event: SimulatedHookEvent): unknown;
+  /** Whether the command's result blocks the action on this platform */
+  blocks(hook: Hook, nativeEvent: string, result: { status: number; stdout: string }): boolean;
+}
+
+export interface Adapter<Options = AdapterOptions> {
   name: string;
-  generate(ir: IR): AdapterResult;
+  /** JSON schema for this adapter's options. Adapters without one accept no options. */
+  optionsSchema?: AnySchema;
+  /** Set by adapters with native hooks, so they can be replayed locally */
+  hookSimulation?: HookSimulation;
+  generate(ir: IR, options?: Options): AdapterResult;
 }
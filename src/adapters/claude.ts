@@ -1,70 +1,141 @@
-import type { Hook, IR } from '../core/ir.ts';
+import type { Hook, HookTool, IR, PermissionRule, Rule } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { pushSkillFiles } from './shared.ts';
+import {
+  buildHookCommand,
+  type HookPlatform,
+  hookRunnerFiles,
+  simulatedToolName,
+} from './hooks.ts';
+import { hasPermissions, mapPermissions } from './permissions.ts';
+import { pushSkillFiles, renderMcpJson } from './shared.ts';
 
-/**
- * Convert a glob pattern to a regex pattern for grep -qE.
- * Handles common glob wildcards: *, **, ?
- */
-function globToRegex(glob: string): string {
-  return glob
-    .replace(/\./g, '\\.')
-    .replace(/\{([^}]+)\}/g, (_match, group: string) => `(${group.replace(/,/g, '|')})`)
-    .replace(/\*\*/g, '.*')
-    .replace(/(?<!\.)(\*)(?!\*)/g, '[^/]*')
-    .replace(/\?/g, '.');
+export interface ClaudeOptions {
+  /** Write a root CLAUDE.md: critical and high-priority always-on rules inline, `@` imports for the rest */
+  claudeMd?: boolean;
+  /** Also `@AGENTS.md` from CLAUDE.md, when another target writes AGENTS.md */
+  importAgentsMd?: boolean;
 }
 
-/**
- * Map an IR hook event to Claude Code's hook format.
- * Returns the event name and matcher string for settings.json.
- */
-function mapHookEvent(event: Hook['event']): { event: string; matcher: string } {
-  switch (event) {
-    case 'post-edit':
-      return { event: 'PostToolUse', matcher: 'Edit|Write|MultiEdit' };
-    case 'post-create':
-      return { event: 'PostToolUse', matcher: 'Write' };
-    case 'pre-commit':
-      return { event: 'Notification', matcher: 'Stop' };
-  }
+/** Targets that write a root AGENTS.md (the generic ones unless their `outputPath` moves it) */
+const AGENTS_MD_TARGETS = ['codex', 'amp', 'roo', 'generic-markdown'];
+
+function writesAgentsMd(ir: IR): boolean {
+  return ir.targets.some(
+    (target) =>
+      AGENTS_MD_TARGETS.includes(target) &&
+      (ir.targetOptions?.[target]?.outputPath ?? 'AGENTS.md') === 'AGENTS.md',
+  );
+}
+
+/** Rules CLAUDE.md holds inline rather than importing */
+function isInlineRule(rule: Rule): boolean {
+  return rule.scope === 'always' && (rule.priority === 'critical' || rule.priority === 'high');
 }
 
 /**
- * Build the shell command for a Claude Code hook.
- * Handles {file} placeholder substitution via jq pipeline,
- * hooks/ path resolution, and glob match filtering.
+ * Render the root CLAUDE.md: inline rules first (already in priority order), then `@` imports
+ * of the other always-on rules, the context files, and AGENTS.md. Glob-scoped rules stay
+ * out, since Claude Code loads them by path.
  */
-function buildHookCommand(hook: Hook): string {
-  let run = hook.run;
+function renderClaudeMd(ir: IR, importAgentsMd: boolean): string {
+  const sections = ir.rules.filter(isInlineRule).map(
+    (rule) => `## ${rule.name}
 
-  // Resolve hooks/ prefix to .agentrc/hooks/
-  if (run.startsWith('hooks/')) {
-    run = `.agentrc/${run}`;
+${rule.content.trim()}`,
+  );
+
+  const imports = [
+    ...ir.rules
+      .filter((rule) => rule.scope !== 'glob' && !isInlineRule(rule))
+      .map((rule) => `@.claude/rules/${rule.name}.md`),
+    ...ir.contextFiles.map((file) => `@${file}`),
+  ];
+  if (importAgentsMd) {
+    imports.push('@AGENTS.md');
+  }
+  if (imports.length > 0) {
+    sections.push(imports.join('\n'));
   }
 
-  const hasFilePlaceholder = run.includes('{file}');
-  const hasMatchGlob = hook.match !== undefined && hook.match !== '';
+  return `${sections.join('\n\n')}\n`;
+}
 
-  if (hasFilePlaceholder) {
-    // Use jq pipeline to extract file path and substitute {file} with the resolved path.
-    // Use $1 parameter passing to avoid quoting issues with {} inside sh -c.
-    let innerCmd = run.replace(/\{file\}/g, '$1');
+/** Where Claude Code's hook payload keeps the edited file, the Bash command, and the tool */
+export const CLAUDE_HOOK_PLATFORM: HookPlatform = {
+  file: ['tool_input.file_path'],
+  command: 'tool_input.command',
+  tool: ['tool_name'],
+  toolNames: {
+    shell: ['Bash'],
+    edit: ['Edit', 'MultiEdit'],
+    write: ['Write'],
+    read: ['Read'],
+    mcp: ['mcp__*'],
+  },
+};
 
-    if (hasMatchGlob) {
-      const regex = globToRegex(hook.match as string);
-      innerCmd = `echo "$1" | grep -qE "${regex}" && ${innerCmd}`;
-    }
+/** Claude Code tool matchers for each `tool` kind */
+const TOOL_MATCHERS: Record<HookTool, string> = {
+  shell: 'Bash',
+  edit: 'Edit|MultiEdit',
+  write: 'Write',
+  read: 'Read',
+  mcp: 'mcp__.*',
+};
 
-    return `jq -r '.tool_input.file_path' | xargs -I {} sh -c '${innerCmd}' _ {}`;
-  }
+/** Claude Code tool names in permission rules, for the file tools */
+const PERMISSION_TOOLS = { edit: 'Edit', write: 'Write', read: 'Read' };
 
-  if (hasMatchGlob) {
-    const regex = globToRegex(hook.match as string);
-    return `jq -r '.tool_input.file_path' | xargs -I {} sh -c 'echo "$1" | grep -qE "${regex}" && ${run}' _ {}`;
+/**
+ * Write a permission rule in Claude Code's syntax: `Bash(npm test:*)` (command prefix),
+ * `Read(.env)`, `mcp__github`. Claude can't name every MCP server at once.
+ */
+function permissionRule(rule: PermissionRule): string | undefined {
+  switch (rule.tool) {
+    case 'shell':
+      return rule.pattern === undefined ? 'Bash' : `Bash(${rule.pattern}:*)`;
+    case 'mcp':
+      return rule.pattern === undefined ? undefined : `mcp__${rule.pattern}`;
+    default: {
+      const name = PERMISSION_TOOLS[rule.tool];
+      return rule.pattern === undefined ? name : `${name}(${rule.pattern})`;
+    }
   }
+}
 
-  return run;
+/** One matcher group in settings.json `hooks.<Event>` */
+interface ClaudeHookEntry {
+  matcher?: string;
+  hooks: Array<{ type: 'command'; command: string; timeout?: number }>;
+}
+
+/**
+ * Map an IR hook to Claude Code's hook format.
+ * Returns the event name and, for tool events, the matcher string for settings.json.
+ */
+function mapHookEvent(hook: Hook): { event: string; matcher?: string } {
+  switch (hook.event) {
+    case 'session-start':
+      return { event: 'SessionStart' };
+    case 'user-prompt-submit':
+      return { event: 'UserPromptSubmit' };
+    case 'pre-tool-use':
+      return {
+        event: 'PreToolUse',
+        matcher: hook.tool ? hook.tool.map((tool) => TOOL_MATCHERS[tool]).join('|') : '*',
+      };
+    case 'post-edit':
+      return { event: 'PostToolUse', matcher: 'Edit|Write|MultiEdit' };
+    case 'post-create':
+      return { event: 'PostToolUse', matcher: 'Write' };
+    case 'pre-commit':
+      // Claude has no commit event; guard its Bash tool calls instead
+      return { event: 'PreToolUse', matcher: 'Bash' };
+    case 'stop':
+      return { event: 'Stop' };
+    case 'subagent-stop':
+      return { event: 'SubagentStop' };
+  }
 }
 
 /**
@@ -72,13 +143,37 @@ function buildHookCommand(hook: Hook): string {
  *
  * The most capable adapter, with native support for:
  * - Rules (.claude/rules/*.md with optional `paths:` frontmatter)
- * - Hooks (.claude/settings.json)
+ * - Context files (`@` imports in .claude/CLAUDE.md)
+ * - With `claudeMd`, a root CLAUDE.md holding the key rules and the imports instead
+ * - Hooks and permissions (.claude/settings.json); `ignore` patterns become Read deny rules
  * - Commands (.claude/commands/*.md)
  * - Skills (.claude/skills/SKILL.md)
+ * - MCP servers (.mcp.json)
  */
-export const claudeAdapter: Adapter = {
+export const claudeAdapter: Adapter<ClaudeOptions> = {
   name: 'claude',
-  generate(ir: IR): AdapterResult {
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      claudeMd: { type: 'boolean' },
+      importAgentsMd: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  hookSimulation: {
+    nativeEvent: (hook) => mapHookEvent(hook).event,
+    command: (hook) => buildHookCommand(hook, CLAUDE_HOOK_PLATFORM),
+    payload: (nativeEvent, event) => ({
+      session_id: 'agentrc-hooks-run',
+      cwd: event.rootDir,
+      hook_event_name: nativeEvent,
+      prompt: event.prompt,
+      tool_name: event.tool && simulatedToolName(CLAUDE_HOOK_PLATFORM, event.tool),
+      tool_input: event.tool && { file_path: event.file, command: event.command },
+    }),
+    blocks: (_hook, _nativeEvent, { status }) => status === 2,
+  },
+  generate(ir: IR, options: ClaudeOptions = {}): AdapterResult {
     const files: OutputFile[] = [];
     const warnings: string[] = [];
     const nativeFeatures: string[] = ['instructions'];
@@ -100,6 +195,8 @@ export const claudeAdapter: Adapter = {
       degradedFeatures.push('manual rules (converted to always-on rules)');
     }
 
+    // CLAUDE.md holds the inline rules; their rule files are only written if it is left alone
+    const inlineRuleFiles: OutputFile[] = [];
     for (const rule of ir.rules) {
       let content: string;
 
@@ -110,47 +207,111 @@ export const claudeAdapter: Adapter = {
         content = `${rule.content.trim()}\n`;
       }
 
-      files.push({
-        path: `.claude/rules/${rule.name}.md`,
-        content,
-      });
+      const file = { path: `.claude/rules/${rule.name}.md`, content, sources: [rule.sourcePath] };
+      if (options.claudeMd && isInlineRule(rule)) {
+        inlineRuleFiles.push(file);
+      } else {
+        files.push(file);
+      }
+    }
+
+    // .claude/CLAUDE.md: context files as @-imports (relative to the importing file)
+    const contextImports: OutputFile[] =
+      ir.contextFiles.length > 0
+        ? [
+            {
+              path: '.claude/CLAUDE.md',
+              content: `${ir.contextFiles.map((file) => `@../${file}`).join('\n')}\n`,
+            },
+          ]
+        : [];
+
+    if (ir.contextFiles.length > 0) {
+      nativeFeatures.push('context');
+    }
+
+    // --- CLAUDE.md ---
+    if (options.claudeMd) {
+      let importAgentsMd = false;
+      if (options.importAgentsMd) {
+        importAgentsMd = writesAgentsMd(ir);
+        if (!importAgentsMd) {
+          warnings.push('importAgentsMd: no other target writes AGENTS.md, so it was not imported');
+        }
+      }
+      const claudeMd: OutputFile = {
+        path: 'CLAUDE.md',
+        content: renderClaudeMd(ir, importAgentsMd),
+        keepExisting: true,
+      };
+      const fallback = [...inlineRuleFiles, ...contextImports];
+      if (fallback.length > 0) {
+        claudeMd.fallback = fallback;
+      }
+      files.push(claudeMd);
+    } else {
+      if (options.importAgentsMd) {
+        warnings.push('importAgentsMd only applies with claudeMd');
+      }
+      files.push(...contextImports);
     }
 
     // --- .claude/settings.json ---
-    const settingsHooks: Record<string, Array<{ matcher: string; command: string }>> = {};
+    const hooksConfig: Record<string, ClaudeHookEntry[]> = {};
 
     if (ir.hooks.length > 0) {
       nativeFeatures.push('hooks');
       for (const hook of ir.hooks) {
-        const { event, matcher } = mapHookEvent(hook.event);
-        const command = buildHookCommand(hook);
+        const { event, matcher } = mapHookEvent(hook);
+        const command: ClaudeHookEntry['hooks'][number] = {
+          type: 'command',
+          command: buildHookCommand(hook, CLAUDE_HOOK_PLATFORM),
+        };
+        if (hook.timeout !== undefined) {
+          command.timeout = hook.timeout;
+        }
 
-        if (!settingsHooks[event]) {
-          settingsHooks[event] = [];
+        if (!hooksConfig[event]) {
+          hooksConfig[event] = [];
         }
-        settingsHooks[event].push({ matcher, command });
+        hooksConfig[event].push(
+          matcher === undefined ? { hooks: [command] } : { matcher, hooks: [command] },
+        );
       }
     }
 
-    // Only write settings.json if we have hooks
-    if (Object.keys(settingsHooks).length > 0) {
-      const hooksConfig: Record<string, unknown> = {};
-
-      for (const [event, entries] of Object.entries(settingsHooks)) {
-        hooksConfig[event] = entries.map((e) => ({
-          matcher: e.matcher,
-          hooks: [
-            {
-              type: 'command',
-              command: e.command,
-            },
-          ],
-        }));
+    const settings: Record<string, unknown> = {};
+    if (Object.keys(hooksConfig).length > 0) {
+      settings.hooks = hooksConfig;
+    }
+    // Claude Code has no ignore file; ignored paths become Read deny rules
+    const ignoreRules: PermissionRule[] = [];
+    for (const pattern of ir.ignores) {
+      if (pattern.startsWith('!')) {
+        warnings.push(`Ignore pattern ${pattern} has no Claude Code equivalent and was skipped`);
+      } else {
+        ignoreRules.push({
+          tool: 'read',
+          pattern: pattern.endsWith('/') ? `${pattern}**` : pattern,
+        });
       }
+    }
+    if (ir.ignores.length > 0) {
+      nativeFeatures.push('ignore');
+    }
+    if (hasPermissions(ir.permissions)) {
+      nativeFeatures.push('permissions');
+    }
+    const permissions = { ...ir.permissions, deny: [...ir.permissions.deny, ...ignoreRules] };
+    if (hasPermissions(permissions)) {
+      settings.permissions = mapPermissions(permissions, permissionRule, 'Claude Code', warnings);
+    }
 
-      const settings = { hooks: hooksConfig };
+    // Only write settings.json if we have hooks or permissions
+    if (Object.keys(settings).length > 0) {
       const settingsContent = `${JSON.stringify(settings, null, 2)}\n`;
       files.push({ path: '.claude/settings.json', content: settingsContent });
+      files.push(...hookRunnerFiles(ir.hooks));
     }
 
     // --- .claude/commands/*.md ---
@@ -161,6 +322,7 @@ export const claudeAdapter: Adapter = {
         files.push({
           path: `.claude/commands/${cmd.name}.md`,
           content: `${cmd.content.trim()}\n`,
+          sources: [cmd.sourcePath],
         });
       }
     }
@@ -191,10 +353,20 @@ export const claudeAdapter: Adapter = {
         files.push({
           path: `.claude/agents/${agent.name}.md`,
           content: `${frontmatter}\n\n${agent.content.trim()}\n`,
+          sources: [agent.sourcePath],
         });
       }
     }
 
+    // --- .mcp.json ---
+    if (ir.mcpServers.length > 0) {
+      nativeFeatures.push('mcp');
+      files.push({
+        path: '.mcp.json',
+        content: renderMcpJson(ir.mcpServers, { httpType: 'http' }),
+      });
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
@@ -1,6 +1,98 @@
-import type { IR } from '../core/ir.ts';
+import { relative } from 'node:path';
+import { flattenRuleName, type Hook, type HookTool, type IR } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { inlineSkillContent } from './shared.ts';
+import {
+  buildHookCommand,
+  groupHooksByEvent,
+  type HookPlatform,
+  hookRunnerFiles,
+  simulatedToolName,
+} from './hooks.ts';
+import { hasPermissions } from './permissions.ts';
+import { ignoreFile, inlineSkillContent, renderContextSection } from './shared.ts';
+
+/** Cline tool names for each `tool` kind */
+const TOOL_NAMES: Record<HookTool, string[]> = {
+  shell: ['execute_command'],
+  edit: ['replace_in_file'],
+  write: ['write_to_file'],
+  read: ['read_file'],
+  mcp: ['use_mcp_tool', 'access_mcp_resource'],
+};
+
+/** Where Cline's hook payload keeps the edited file, the shell command, and the tool */
+const CLINE_HOOK_PLATFORM: HookPlatform = {
+  file: ['postToolUse.parameters.path', 'preToolUse.parameters.path'],
+  command: 'preToolUse.parameters.command',
+  tool: ['preToolUse.toolName', 'postToolUse.toolName'],
+  toolNames: TOOL_NAMES,
+};
+
+/** Map an IR hook to the Cline hook it runs in (none when Cline has no equivalent). */
+function mapHookEvent(hook: Hook): string[] {
+  switch (hook.event) {
+    case 'session-start':
+      return ['TaskStart'];
+    case 'user-prompt-submit':
+      return ['UserPromptSubmit'];
+    case 'pre-tool-use':
+    case 'pre-commit':
+      return ['PreToolUse'];
+    case 'post-edit':
+    case 'post-create':
+      return ['PostToolUse'];
+    case 'stop':
+      return ['TaskComplete'];
+    case 'subagent-stop':
+      return [];
+  }
+}
+
+/**
+ * Tools a hook is limited to inside a Cline tool hook (undefined = every tool). Cline runs
+ * one script for every tool, so the hook runner checks the tool.
+ */
+function hookTools(hook: Hook): HookTool[] | undefined {
+  switch (hook.event) {
+    case 'pre-tool-use':
+      return hook.tool;
+    case 'pre-commit':
+      return ['shell'];
+    case 'post-edit':
+      return ['edit', 'write'];
+    case 'post-create':
+      return ['write'];
+    default:
+      return undefined;
+  }
+}
+
+/** A hook's command in Cline's hook script: the script answers with the cancel verdict. */
+function clineHookCommand(hook: Hook): string {
+  return buildHookCommand({ ...hook, blocking: false }, CLINE_HOOK_PLATFORM, hookTools(hook));
+}
+
+/**
+ * Render the script Cline runs for one hook event. Cline passes the payload on stdin and
+ * reads a JSON verdict from stdout, so command output goes to stderr and a failing
+ * blocking hook answers with `cancel: true`.
+ */
+function renderHookScript(hooks: Hook[]): string {
+  const lines = ['#!/bin/sh', 'payload=$(cat)'];
+
+  for (const hook of hooks) {
+    let step = `printf '%s' "$payload" | { ${clineHookCommand(hook)}; } >&2`;
+    if (hook.blocking) {
+      const verdict = JSON.stringify({ cancel: true, errorMessage: `${hook.description} failed` });
+      step = `if ! ${step}; then echo '${verdict.replace(/'/g, `'\\''`)}'; exit 0; fi`;
+    }
+
+    lines.push('', `# ${hook.description}`, step);
+  }
+
+  lines.push('', `echo '{"cancel":false}'`);
+  return `${lines.join('\n')}\n`;
+}
 
 /**
  * Cline adapter.
@@ -9,10 +101,35 @@ import { inlineSkillContent } from './shared.ts';
  * - .clinerules/{NN}-{name}.md: rule files with numeric prefixes for priority ordering
  *   - Glob-scoped rules use `paths` frontmatter
  *   - Rules without globs have no frontmatter (always active)
- * - .clinerules/00-agentrc-conventions.md: degraded skills
+ * - .clinerules/00-agentrc-conventions.md: degraded skills and links to the context files
+ * - .clinerules/hooks/{Event}: one executable script per Cline hook event
+ * - .clineignore: `ignore` patterns (merged into an existing file)
+ * - MCP servers are left out (Cline keeps them in its global settings)
  */
 export const clineAdapter: Adapter = {
   name: 'cline',
+  hookSimulation: {
+    nativeEvent: (hook) => mapHookEvent(hook)[0],
+    command: clineHookCommand,
+    payload: (nativeEvent, event) => {
+      const toolUse = event.tool && {
+        toolName: simulatedToolName(CLINE_HOOK_PLATFORM, event.tool),
+        parameters: {
+          path: event.file && relative(event.rootDir, event.file),
+          command: event.command,
+        },
+      };
+      return {
+        hookName: nativeEvent,
+        taskId: 'agentrc-hooks-run',
+        workspaceRoots: [event.rootDir],
+        userPromptSubmit: event.prompt === undefined ? undefined : { prompt: event.prompt },
+        preToolUse: nativeEvent === 'PreToolUse' ? toolUse : undefined,
+        postToolUse: nativeEvent === 'PostToolUse' ? toolUse : undefined,
+      };
+    },
+    blocks: (hook, _nativeEvent, { status }) => hook.blocking === true && status !== 0,
+  },
   generate(ir: IR): AdapterResult {
     const files: OutputFile[] = [];
     const warnings: string[] = [];
@@ -35,8 +152,9 @@ export const clineAdapter: Adapter = {
       }
 
       files.push({
-        path: `.clinerules/${prefix}-${rule.name}.md`,
+        path: `.clinerules/${prefix}-${flattenRuleName(rule.name)}.md`,
         content,
+        sources: [rule.sourcePath],
       });
       index++;
     }
@@ -60,6 +178,11 @@ export const clineAdapter: Adapter = {
       }
     }
 
+    if (ir.contextFiles.length > 0) {
+      degradedFeatures.push('context (linked from conventions file)');
+      conventionSections.push(renderContextSection(ir.contextFiles, '.clinerules'), '');
+    }
+
     if (conventionSections.length > 0) {
       files.push({
         path: '.clinerules/00-agentrc-conventions.md',
@@ -67,6 +190,37 @@ export const clineAdapter: Adapter = {
       });
     }
 
+    const hooksByEvent = groupHooksByEvent(ir.hooks, mapHookEvent, 'Cline', warnings);
+    if (hooksByEvent.size > 0) {
+      nativeFeatures.push('hooks');
+    }
+    for (const [event, eventHooks] of hooksByEvent) {
+      files.push({
+        path: `.clinerules/hooks/${event}`,
+        content: renderHookScript(eventHooks),
+        executable: true,
+      });
+    }
+    // The scripts handle blocking themselves, so only payload-reading hooks need the runner
+    files.push(
+      ...hookRunnerFiles([...hooksByEvent.values()].flat().map((h) => ({ ...h, blocking: false }))),
+    );
+
+    if (ir.mcpServers.length > 0) {
+      degradedFeatures.push('mcp (omitted: Cline only reads MCP servers from its global settings)');
+    }
+
+    if (hasPermissions(ir.permissions)) {
+      degradedFeatures.push(
+        'permissions (omitted: Cline has no project-level permission settings)',
+      );
+    }
+
+    if (ir.ignores.length > 0) {
+      nativeFeatures.push('ignore');
+      files.push(ignoreFile('.clineignore', ir.ignores));
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
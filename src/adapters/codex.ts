@@ -1,13 +1,90 @@
-import type { IR } from '../core/ir.ts';
+import type { IR, McpServer, Permissions } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { pushSkillFiles, renderDescriptionRule, renderGlobRule } from './shared.ts';
+import { hasPermissions } from './permissions.ts';
+import {
+  partitionPackageRules,
+  pushSkillFiles,
+  renderContextSection,
+  renderDescriptionRule,
+  renderGlobRule,
+  renderPackageRules,
+} from './shared.ts';
+
+const BARE_TOML_KEY = /^[A-Za-z0-9_-]+$/;
+
+/** TOML basic strings share JSON's escapes, so JSON.stringify produces valid TOML */
+function tomlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function tomlKey(key: string): string {
+  return BARE_TOML_KEY.test(key) ? key : tomlString(key);
+}
+
+/** Render MCP servers as `[mcp_servers.<name>]` tables for .codex/config.toml */
+function renderMcpToml(servers: McpServer[]): string {
+  const tables = servers.map((server) => {
+    const table = `mcp_servers.${tomlKey(server.name)}`;
+    const lines = [`[${table}]`];
+    let values: Record<string, string> | undefined;
+    let valuesTable: string;
+
+    if (server.transport === 'stdio') {
+      lines.push(`command = ${tomlString(server.command ?? '')}`);
+      if (server.args) {
+        lines.push(`args = [${server.args.map(tomlString).join(', ')}]`);
+      }
+      values = server.env;
+      valuesTable = 'env';
+    } else {
+      lines.push(`url = ${tomlString(server.url ?? '')}`);
+      values = server.headers;
+      valuesTable = 'http_headers';
+    }
+
+    if (values && Object.keys(values).length > 0) {
+      lines.push('', `[${table}.${valuesTable}]`);
+      for (const [key, value] of Object.entries(values)) {
+        lines.push(`${tomlKey(key)} = ${tomlString(value)}`);
+      }
+    }
+    return lines.join('\n');
+  });
+
+  return `${tables.join('\n\n')}\n`;
+}
+
+/**
+ * Approximate permissions with Codex's two top-level settings. Codex has no per-command or
+ * per-path rules: denying edit or write without a pattern makes the sandbox read-only, shell
+ * rules on the ask or deny list make it ask before untrusted commands, and allowing every
+ * shell command stops it asking.
+ */
+function renderPermissionsToml(permissions: Permissions): string {
+  const denyWrites = permissions.deny.some(
+    (rule) => (rule.tool === 'edit' || rule.tool === 'write') && rule.pattern === undefined,
+  );
+  const restrictsShell = [...permissions.ask, ...permissions.deny].some(
+    (rule) => rule.tool === 'shell',
+  );
+  const allowsShell = permissions.allow.some(
+    (rule) => rule.tool === 'shell' && rule.pattern === undefined,
+  );
+
+  const sandboxMode = denyWrites ? 'read-only' : 'workspace-write';
+  const approvalPolicy = restrictsShell ? 'untrusted' : allowsShell ? 'never' : 'on-request';
+  return `sandbox_mode = ${tomlString(sandboxMode)}\napproval_policy = ${tomlString(approvalPolicy)}\n`;
+}
 
 /**
  * Codex (OpenAI) adapter.
  *
  * Generates:
- * - AGENTS.md with all rules (glob-scoped get file-path annotations)
+ * - AGENTS.md with all rules (glob-scoped get file-path annotations) and links to the context files
+ * - {package}/AGENTS.md for monorepo package rules (Codex reads the nearest AGENTS.md)
  * - .agents/skills/{name}/SKILL.md for each skill
+ * - .codex/config.toml with `[mcp_servers.*]` tables for MCP servers, and `sandbox_mode` and
+ *   `approval_policy` approximating permissions
  * - Hooks are omitted (not supported by Codex)
  */
 export const codexAdapter: Adapter = {
@@ -19,15 +96,16 @@ export const codexAdapter: Adapter = {
     const degradedFeatures: string[] = [];
 
     const sections: string[] = [];
+    const { rootRules, packageRules } = partitionPackageRules(ir.rules);
 
     // Always-apply and manual rules
-    const alwaysRules = ir.rules.filter((r) => r.scope === 'always' || r.scope === 'manual');
+    const alwaysRules = rootRules.filter((r) => r.scope === 'always' || r.scope === 'manual');
     for (const rule of alwaysRules) {
       sections.push(`### ${rule.name}\n\n${rule.content}`);
     }
 
     // Glob-scoped rules with file-path annotations
-    const globRules = ir.rules.filter((r) => r.scope === 'glob');
+    const globRules = rootRules.filter((r) => r.scope === 'glob');
     if (globRules.length > 0) {
       degradedFeatures.push('scoped-rules (folded into instructions with file-path annotations)');
     }
@@ -36,7 +114,7 @@ export const codexAdapter: Adapter = {
     }
 
     // Description-triggered rules
-    const descRules = ir.rules.filter((r) => r.scope === 'description');
+    const descRules = rootRules.filter((r) => r.scope === 'description');
     if (descRules.length > 0) {
       degradedFeatures.push('description-triggered rules (folded into instructions)');
     }
@@ -44,14 +122,45 @@ export const codexAdapter: Adapter = {
       sections.push(renderDescriptionRule(rule));
     }
 
+    if (ir.contextFiles.length > 0) {
+      degradedFeatures.push('context (linked from AGENTS.md)');
+      sections.push(renderContextSection(ir.contextFiles));
+    }
+
     const content = `${sections.join('\n\n').trim()}\n`;
     files.push({ path: 'AGENTS.md', content });
 
+    // Package rules go into nested AGENTS.md files next to the package
+    if (packageRules.size > 0) {
+      nativeFeatures.push('nested-instructions');
+    }
+    for (const [packagePath, rules] of packageRules) {
+      files.push({ path: `${packagePath}/AGENTS.md`, content: renderPackageRules(rules) });
+    }
+
     // Skills get native support as .agents/skills/{name}/SKILL.md
     for (const skill of ir.skills) {
       pushSkillFiles(files, skill, '.agents');
     }
 
+    // Top-level keys come before the MCP tables
+    const config: string[] = [];
+    if (hasPermissions(ir.permissions)) {
+      degradedFeatures.push('permissions (approximated with sandbox_mode and approval_policy)');
+      config.push(renderPermissionsToml(ir.permissions));
+    }
+    if (ir.mcpServers.length > 0) {
+      nativeFeatures.push('mcp');
+      config.push(renderMcpToml(ir.mcpServers));
+    }
+    if (config.length > 0) {
+      files.push({ path: '.codex/config.toml', content: config.join('\n') });
+    }
+
+    if (ir.ignores.length > 0) {
+      degradedFeatures.push('ignore (omitted: Codex has no ignore file)');
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
@@ -1,6 +1,12 @@
-import type { IR } from '../core/ir.ts';
+import { flattenRuleName, type IR } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { renderSkillsSection } from './shared.ts';
+import { hasPermissions } from './permissions.ts';
+import { renderContextSection, renderMcpJson, renderSkillsSection } from './shared.ts';
+
+export interface CopilotOptions {
+  /** Fold skills into copilot-instructions.md (default true). When false, skills are left out. */
+  foldSkills?: boolean;
+}
 
 /**
  * GitHub Copilot adapter.
@@ -8,11 +14,20 @@ import { renderSkillsSection } from './shared.ts';
  * Generates:
  * - .github/copilot-instructions.md: all alwaysApply rules by priority
  * - .github/instructions/{name}.instructions.md: glob-scoped rules with applyTo frontmatter
- * - Skills degrade to text in copilot-instructions.md
+ * - Skills degrade to text in copilot-instructions.md (unless `foldSkills: false`), and context
+ *   files are linked from it
+ * - .vscode/mcp.json: MCP servers
  */
-export const copilotAdapter: Adapter = {
+export const copilotAdapter: Adapter<CopilotOptions> = {
   name: 'copilot',
-  generate(ir: IR): AdapterResult {
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      foldSkills: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  generate(ir: IR, options: CopilotOptions = {}): AdapterResult {
     const files: OutputFile[] = [];
     const warnings: string[] = [];
     const nativeFeatures: string[] = ['instructions', 'scoped-rules'];
@@ -33,8 +48,9 @@ export const copilotAdapter: Adapter = {
       const frontmatter = `---\napplyTo: "${globStr}"\n---`;
       const content = `${frontmatter}\n\n${rule.content.trim()}\n`;
       files.push({
-        path: `.github/instructions/${rule.name}.instructions.md`,
+        path: `.github/instructions/${flattenRuleName(rule.name)}.instructions.md`,
         content,
+        sources: [rule.sourcePath],
       });
     }
 
@@ -48,15 +64,45 @@ export const copilotAdapter: Adapter = {
       mainSections.push(`### ${rule.name}${desc}\n\n${rule.content}`);
     }
 
-    // Skills degrade to text
-    if (ir.skills.length > 0) {
+    // Skills degrade to text, or are dropped entirely when folding is turned off
+    if (ir.skills.length > 0 && options.foldSkills === false) {
+      degradedFeatures.push('skills (omitted: foldSkills is false)');
+    } else if (ir.skills.length > 0) {
       degradedFeatures.push('skills (folded into skills section)');
       mainSections.push(renderSkillsSection(ir.skills));
     }
 
+    if (ir.contextFiles.length > 0) {
+      degradedFeatures.push('context (linked from copilot-instructions.md)');
+      mainSections.push(renderContextSection(ir.contextFiles, '.github'));
+    }
+
     const mainContent = `${mainSections.join('\n\n').trim()}\n`;
     files.push({ path: '.github/copilot-instructions.md', content: mainContent });
 
+    // VS Code reads workspace MCP servers from .vscode/mcp.json, under `servers`
+    if (ir.mcpServers.length > 0) {
+      nativeFeatures.push('mcp');
+      files.push({
+        path: '.vscode/mcp.json',
+        content: renderMcpJson(ir.mcpServers, {
+          rootKey: 'servers',
+          stdioType: 'stdio',
+          httpType: 'http',
+        }),
+      });
+    }
+
+    if (hasPermissions(ir.permissions)) {
+      degradedFeatures.push(
+        'permissions (omitted: Copilot has no project-level permission settings)',
+      );
+    }
+
+    if (ir.ignores.length > 0) {
+      degradedFeatures.push('ignore (omitted: Copilot has no ignore file)');
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
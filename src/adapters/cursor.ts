@@ -1,6 +1,96 @@
-import type { IR } from '../core/ir.ts';
+import type { Hook, HookTool, IR, PermissionRule } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { pushSkillFiles } from './shared.ts';
+import {
+  buildHookCommand,
+  groupHooksByEvent,
+  type HookPlatform,
+  hookRunnerFiles,
+} from './hooks.ts';
+import { hasPermissions, mapPermissions } from './permissions.ts';
+import { ignoreFile, pushSkillFiles, renderMcpJson } from './shared.ts';
+
+/**
+ * Where Cursor's hook payload keeps the edited file and the shell command (stdout is Cursor's).
+ * Cursor names no tool, but each event belongs to one, so `{tool}` comes from the event name.
+ */
+const CURSOR_HOOK_PLATFORM: HookPlatform = {
+  file: ['file_path'],
+  command: 'command',
+  tool: ['hook_event_name'],
+  toolNames: {
+    shell: ['beforeShellExecution'],
+    edit: ['afterFileEdit'],
+    write: [],
+    read: ['beforeReadFile'],
+    mcp: ['beforeMCPExecution'],
+  },
+  stderr: true,
+};
+
+/** Cursor's before-tool events for each `tool` kind (Cursor has no before-edit event) */
+const TOOL_EVENTS: Record<HookTool, string | undefined> = {
+  shell: 'beforeShellExecution',
+  edit: undefined,
+  write: undefined,
+  read: 'beforeReadFile',
+  mcp: 'beforeMCPExecution',
+};
+
+/** Map an IR hook to the Cursor hook events it runs on (none when Cursor has no equivalent). */
+function mapHookEvent(hook: Hook): string[] {
+  switch (hook.event) {
+    case 'user-prompt-submit':
+      return ['beforeSubmitPrompt'];
+    case 'pre-tool-use': {
+      const tools = hook.tool ?? (Object.keys(TOOL_EVENTS) as HookTool[]);
+      return [...new Set(tools.flatMap((tool) => TOOL_EVENTS[tool] ?? []))];
+    }
+    case 'post-edit':
+    case 'post-create':
+      return ['afterFileEdit'];
+    case 'pre-commit':
+      return ['beforeShellExecution'];
+    case 'stop':
+      return ['stop'];
+    case 'session-start':
+    case 'subagent-stop':
+      return [];
+  }
+}
+
+/** Blocking hooks answer Cursor with a deny response instead of an exit code. */
+function denyResponse(event: string): string {
+  return event === 'beforeSubmitPrompt' ? '{"continue":false}' : '{"permission":"deny"}';
+}
+
+/** The Cursor event a hook runs on when `tool` fires it (pre-tool-use hooks have one per tool). */
+function nativeEventFor(hook: Hook, tool: HookTool | undefined): string | undefined {
+  const events = mapHookEvent(hook);
+  if (hook.event !== 'pre-tool-use') return events[0];
+  const event = tool && TOOL_EVENTS[tool];
+  return event && events.includes(event) ? event : undefined;
+}
+
+/**
+ * Write a permission rule in Cursor CLI's syntax: `Shell(git)` names a command by its first
+ * word, `Read(src/**)` and `Write(**)` take globs. The CLI allows or denies; it has no ask list.
+ */
+function permissionRule(rule: PermissionRule, list: string): string | undefined {
+  if (list === 'ask') return undefined;
+  switch (rule.tool) {
+    case 'shell':
+      return rule.pattern !== undefined && /^\S+$/.test(rule.pattern)
+        ? `Shell(${rule.pattern})`
+        : undefined;
+    case 'read':
+      return `Read(${rule.pattern ?? '**'})`;
+    case 'edit':
+    case 'write':
+      return `Write(${rule.pattern ?? '**'})`;
+    default:
+      return undefined;
+  }
+}
 
 /**
  * Cursor adapter.
@@ -11,11 +101,32 @@ import { pushSkillFiles } from './shared.ts';
  *   - Glob-scoped: `globs: "glob1,glob2"`, `alwaysApply: false`
  *   - Description-triggered: `description: "..."`, `alwaysApply: false`
  *   - Manual: no special frontmatter
+ * - .cursor/rules/agentrc-context.mdc: `@` references to the context files, always applied
  * - .cursor/commands/{name}.md: one per command (native support)
  * - .cursor/agents/{name}.md: one per agent (native support)
+ * - .cursor/hooks.json: hooks on Cursor's agent events (session-start and subagent-stop
+ *   have no equivalent and are skipped)
+ * - .cursor/mcp.json: MCP servers
+ * - .cursorignore: `ignore` patterns (merged into an existing file)
+ * - .cursor/cli.json: permissions for the Cursor CLI agent (single-word shell commands and
+ *   file globs; ask rules and MCP servers are skipped)
  */
 export const cursorAdapter: Adapter = {
   name: 'cursor',
+  hookSimulation: {
+    nativeEvent: nativeEventFor,
+    command: (hook, nativeEvent) =>
+      buildHookCommand(hook, { ...CURSOR_HOOK_PLATFORM, deny: denyResponse(nativeEvent) }),
+    payload: (nativeEvent, event) => ({
+      conversation_id: 'agentrc-hooks-run',
+      hook_event_name: nativeEvent,
+      workspace_roots: [event.rootDir],
+      prompt: event.prompt,
+      file_path: event.file,
+      command: event.command,
+    }),
+    blocks: (_hook, nativeEvent, { stdout }) => stdout.trim() === denyResponse(nativeEvent),
+  },
   generate(ir: IR): AdapterResult {
     const files: OutputFile[] = [];
     const warnings: string[] = [];
@@ -48,6 +159,7 @@ export const cursorAdapter: Adapter = {
       files.push({
         path: `.cursor/rules/${rule.name}.mdc`,
         content,
+        sources: [rule.sourcePath],
       });
     }
 
@@ -58,6 +170,7 @@ export const cursorAdapter: Adapter = {
         files.push({
           path: `.cursor/commands/${cmd.name}.md`,
           content: `${cmd.content.trim()}\n`,
+          sources: [cmd.sourcePath],
         });
       }
     }
@@ -85,10 +198,62 @@ export const cursorAdapter: Adapter = {
         files.push({
           path: `.cursor/agents/${agent.name}.md`,
           content: `${frontmatterBlock}${agent.content.trim()}\n`,
+          sources: [agent.sourcePath],
         });
       }
     }
 
+    // Context files as an always-applied rule of @-references (Cursor loads the files)
+    if (ir.contextFiles.length > 0) {
+      nativeFeatures.push('context');
+      const references = ir.contextFiles.map((file) => `@${file}`).join('\n');
+      files.push({
+        path: '.cursor/rules/agentrc-context.mdc',
+        content: `---\ndescription: "Project context"\nalwaysApply: true\n---\n\n${references}\n`,
+      });
+    }
+
+    // --- .cursor/hooks.json ---
+    const hooksByEvent = groupHooksByEvent(ir.hooks, mapHookEvent, 'Cursor', warnings);
+    if (hooksByEvent.size > 0) {
+      nativeFeatures.push('hooks');
+      const hooks: Record<string, Array<{ command: string }>> = {};
+      for (const [event, eventHooks] of hooksByEvent) {
+        const platform = { ...CURSOR_HOOK_PLATFORM, deny: denyResponse(event) };
+        hooks[event] = eventHooks.map((hook) => ({ command: buildHookCommand(hook, platform) }));
+      }
+      files.push({
+        path: '.cursor/hooks.json',
+        content: `${JSON.stringify({ version: 1, hooks }, null, 2)}\n`,
+      });
+      files.push(...hookRunnerFiles([...hooksByEvent.values()].flat()));
+    }
+
+    if (ir.mcpServers.length > 0) {
+      nativeFeatures.push('mcp');
+      files.push({ path: '.cursor/mcp.json', content: renderMcpJson(ir.mcpServers) });
+    }
+
+    if (hasPermissions(ir.permissions)) {
+      nativeFeatures.push('permissions');
+      const { allow = [], deny = [] } = mapPermissions(
+        ir.permissions,
+        permissionRule,
+        'Cursor CLI',
+        warnings,
+      );
+      // The CLI expects both lists
+      files.push({
+        path: '.cursor/cli.json',
+        content: `${JSON.stringify({ permissions: { allow, deny } }, null, 2)}\n`,
+      });
+    }
+
+    if (ir.ignores.length > 0) {
+      nativeFeatures.push('ignore');
+      files.push(ignoreFile('.cursorignore', ir.ignores));
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
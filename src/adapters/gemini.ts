@@ -1,13 +1,47 @@
-import type { IR } from '../core/ir.ts';
+import type { IR, PermissionRule } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { pushSkillFiles, renderDescriptionRule, renderGlobRule } from './shared.ts';
+import { hasPermissions, mapPermissions } from './permissions.ts';
+import {
+  ignoreFile,
+  mcpJsonEntries,
+  partitionPackageRules,
+  pushSkillFiles,
+  renderDescriptionRule,
+  renderGlobRule,
+  renderPackageRules,
+} from './shared.ts';
+
+/** Gemini CLI's built-in tool names for each tool kind */
+const GEMINI_TOOLS = {
+  shell: 'run_shell_command',
+  edit: 'replace',
+  write: 'write_file',
+  read: 'read_file',
+};
+
+/**
+ * Write a permission rule as a Gemini CLI tool name. Shell rules can name a command prefix
+ * (`run_shell_command(npm test)`); file tools take no path, and MCP servers are handled apart.
+ */
+function toolRule(rule: PermissionRule): string | undefined {
+  if (rule.tool === 'mcp') return undefined;
+  const name = GEMINI_TOOLS[rule.tool];
+  if (rule.pattern === undefined) return name;
+  return rule.tool === 'shell' ? `${name}(${rule.pattern})` : undefined;
+}
 
 /**
  * Gemini CLI adapter.
  *
  * Generates:
  * - GEMINI.md: rules and commands as markdown
+ * - {package}/GEMINI.md: monorepo package rules (Gemini CLI loads nested context files)
  * - .gemini/skills/{name}/SKILL.md: native skill files (Agent Skills open standard)
+ * - .gemini/settings.json: MCP servers, context files (`context.fileName`), and permissions
+ *   (merged into an existing settings file)
+ *   - allow → `tools.allowed` (run without asking), deny → `tools.exclude`, denied MCP servers
+ *     → `mcp.excluded`; Gemini CLI asks before other tools already, so `ask` needs nothing
+ * - .geminiignore: `ignore` patterns (merged into an existing file)
  */
 export const geminiAdapter: Adapter = {
   name: 'gemini',
@@ -18,15 +52,16 @@ export const geminiAdapter: Adapter = {
     const degradedFeatures: string[] = [];
 
     const sections: string[] = [];
+    const { rootRules, packageRules } = partitionPackageRules(ir.rules);
 
     // Always-apply and manual rules (no scoping needed)
-    const alwaysRules = ir.rules.filter((r) => r.scope === 'always' || r.scope === 'manual');
+    const alwaysRules = rootRules.filter((r) => r.scope === 'always' || r.scope === 'manual');
     for (const rule of alwaysRules) {
       sections.push(`### ${rule.name}\n\n${rule.content}`);
     }
 
     // Glob-scoped rules with file-match prefix
-    const globRules = ir.rules.filter((r) => r.scope === 'glob');
+    const globRules = rootRules.filter((r) => r.scope === 'glob');
     if (globRules.length > 0) {
       degradedFeatures.push('scoped-rules (folded into instructions with file-match prefix)');
     }
@@ -35,7 +70,7 @@ export const geminiAdapter: Adapter = {
     }
 
     // Description-triggered rules
-    const descRules = ir.rules.filter((r) => r.scope === 'description');
+    const descRules = rootRules.filter((r) => r.scope === 'description');
     if (descRules.length > 0) {
       degradedFeatures.push('description-triggered rules (folded into instructions)');
     }
@@ -54,6 +89,62 @@ export const geminiAdapter: Adapter = {
     const content = `${sections.join('\n\n').trim()}\n`;
     files.push({ path: 'GEMINI.md', content });
 
+    // Package rules go into nested GEMINI.md files next to the package
+    if (packageRules.size > 0) {
+      nativeFeatures.push('nested-instructions');
+    }
+    for (const [packagePath, rules] of packageRules) {
+      files.push({ path: `${packagePath}/GEMINI.md`, content: renderPackageRules(rules) });
+    }
+
+    const settings: Record<string, unknown> = {};
+
+    // Gemini CLI calls the http transport's URL `httpUrl`
+    if (ir.mcpServers.length > 0) {
+      nativeFeatures.push('mcp');
+      settings.mcpServers = mcpJsonEntries(ir.mcpServers, { urlKey: 'httpUrl' });
+    }
+
+    // Context files are loaded like GEMINI.md, so GEMINI.md stays on the list
+    if (ir.contextFiles.length > 0) {
+      nativeFeatures.push('context');
+      settings.context = { fileName: ['GEMINI.md', ...ir.contextFiles] };
+    }
+
+    if (hasPermissions(ir.permissions)) {
+      nativeFeatures.push('permissions');
+      // Denied MCP servers are turned off by name; the other rules become tool names
+      const isServer = (rule: PermissionRule) => rule.tool === 'mcp' && rule.pattern !== undefined;
+      const excludedServers = ir.permissions.deny.filter(isServer).map((rule) => rule.pattern);
+      const mapped = mapPermissions(
+        {
+          allow: ir.permissions.allow,
+          ask: [],
+          deny: ir.permissions.deny.filter((r) => !isServer(r)),
+        },
+        toolRule,
+        'Gemini CLI',
+        warnings,
+      );
+      const tools: Record<string, string[]> = {};
+      if (mapped.allow) tools.allowed = mapped.allow;
+      if (mapped.deny) tools.exclude = mapped.deny;
+      if (Object.keys(tools).length > 0) settings.tools = tools;
+      if (excludedServers.length > 0) settings.mcp = { excluded: excludedServers };
+    }
+
+    if (Object.keys(settings).length > 0) {
+      files.push({
+        path: '.gemini/settings.json',
+        content: `${JSON.stringify(settings, null, 2)}\n`,
+      });
+    }
+
+    if (ir.ignores.length > 0) {
+      nativeFeatures.push('ignore');
+      files.push(ignoreFile('.geminiignore', ir.ignores));
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
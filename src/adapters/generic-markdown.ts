@@ -1,15 +1,63 @@
-import type { IR } from '../core/ir.ts';
+import { posix } from 'node:path';
+import type { IR, Rule } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { renderDescriptionRule, renderGlobRule, renderSkillsSection } from './shared.ts';
+import { hasPermissions } from './permissions.ts';
+import {
+  ignoreFile,
+  type McpJsonFormat,
+  partitionPackageRules,
+  renderContextSection,
+  renderDescriptionRule,
+  renderGlobRule,
+  renderMcpJson,
+  renderPackageRules,
+  renderSkillsSection,
+} from './shared.ts';
+
+/** Platform capabilities that vary between generic markdown targets. */
+export interface GenericAdapterFeatures {
+  /**
+   * The platform reads a nested copy of the output file inside subdirectories
+   * (true for AGENTS.md readers), so monorepo package rules get `{package}/{outputPath}`.
+   */
+  nestedPackages?: boolean;
+  /** Project-level MCP config file. Without one, MCP servers are reported as degraded. */
+  mcp?: { path: string; format?: McpJsonFormat };
+  /** Ignore file the platform reads. Without one, `ignore` patterns are reported as degraded. */
+  ignoreFile?: string;
+  /**
+   * YAML config whose `read:` list loads files into context (Aider's .aider.conf.yml). It gets
+   * the instructions file and the context files in a managed block; without one, context
+   * files are linked.
+   */
+  readConfig?: string;
+}
+
+export interface GenericAdapterOptions {
+  /** Write the instructions file here instead of the platform's default path */
+  outputPath?: string;
+}
 
 /**
  * Factory for generic markdown adapters.
  * These produce a single markdown file with all rules and skills folded in.
  */
-export function createGenericAdapter(name: string, outputPath: string): Adapter {
+export function createGenericAdapter(
+  name: string,
+  defaultOutputPath: string,
+  features: GenericAdapterFeatures = {},
+): Adapter<GenericAdapterOptions> {
   return {
     name,
-    generate(ir: IR): AdapterResult {
+    optionsSchema: {
+      type: 'object',
+      properties: {
+        outputPath: { type: 'string', minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+    generate(ir: IR, options: GenericAdapterOptions = {}): AdapterResult {
+      const outputPath = options.outputPath ?? defaultOutputPath;
       const files: OutputFile[] = [];
       const warnings: string[] = [];
       const nativeFeatures: string[] = ['instructions'];
@@ -17,14 +65,19 @@ export function createGenericAdapter(name: string, outputPath: string): Adapter
 
       const sections: string[] = [];
 
+      // Without nested file support, package rules stay in the root file as glob-scoped rules
+      const { rootRules, packageRules } = features.nestedPackages
+        ? partitionPackageRules(ir.rules)
+        : { rootRules: ir.rules, packageRules: new Map<string, Rule[]>() };
+
       // Always-apply and manual rules first
-      const alwaysRules = ir.rules.filter((r) => r.scope === 'always' || r.scope === 'manual');
+      const alwaysRules = rootRules.filter((r) => r.scope === 'always' || r.scope === 'manual');
       for (const rule of alwaysRules) {
         sections.push(`### ${rule.name}\n\n${rule.content}`);
       }
 
       // Glob-scoped rules with file-match annotation
-      const globRules = ir.rules.filter((r) => r.scope === 'glob');
+      const globRules = rootRules.filter((r) => r.scope === 'glob');
       if (globRules.length > 0) {
         degradedFeatures.push(
           'scoped-rules (folded into instructions with file-match annotations)',
@@ -35,7 +88,7 @@ export function createGenericAdapter(name: string, outputPath: string): Adapter
       }
 
       // Description-triggered rules
-      const descRules = ir.rules.filter((r) => r.scope === 'description');
+      const descRules = rootRules.filter((r) => r.scope === 'description');
       if (descRules.length > 0) {
         degradedFeatures.push('description-triggered rules (folded into instructions)');
       }
@@ -49,12 +102,62 @@ export function createGenericAdapter(name: string, outputPath: string): Adapter
         sections.push(renderSkillsSection(ir.skills));
       }
 
+      if (ir.contextFiles.length > 0 && features.readConfig) {
+        nativeFeatures.push('context');
+        const read = [outputPath, ...ir.contextFiles].map((file) => `  - ${JSON.stringify(file)}`);
+        files.push({
+          path: features.readConfig,
+          content: `read:\n${read.join('\n')}\n`,
+          yamlBlock: true,
+        });
+      } else if (ir.contextFiles.length > 0) {
+        degradedFeatures.push(`context (linked from ${outputPath})`);
+        sections.push(renderContextSection(ir.contextFiles, posix.dirname(outputPath)));
+      }
+
       const content = `${sections.join('\n\n').trim()}\n`;
       files.push({ path: outputPath, content });
 
+      if (packageRules.size > 0) {
+        nativeFeatures.push('nested-instructions');
+      }
+      // Readers look for the nearest file by name, so package files sit at the package root
+      const packageFileName = posix.basename(outputPath);
+      for (const [packagePath, rules] of packageRules) {
+        files.push({
+          path: `${packagePath}/${packageFileName}`,
+          content: renderPackageRules(rules),
+        });
+      }
+
+      if (ir.mcpServers.length > 0 && features.mcp) {
+        nativeFeatures.push('mcp');
+        files.push({
+          path: features.mcp.path,
+          content: renderMcpJson(ir.mcpServers, features.mcp.format),
+        });
+      } else if (ir.mcpServers.length > 0) {
+        degradedFeatures.push(`mcp (omitted: ${name} has no project-level MCP config)`);
+      }
+
+      if (hasPermissions(ir.permissions)) {
+        degradedFeatures.push(
+          `permissions (omitted: ${name} has no project-level permission settings)`,
+        );
+      }
+
+      if (ir.ignores.length > 0 && features.ignoreFile) {
+        nativeFeatures.push('ignore');
+        files.push(ignoreFile(features.ignoreFile, ir.ignores));
+      } else if (ir.ignores.length > 0) {
+        degradedFeatures.push(`ignore (omitted: ${name} has no ignore file)`);
+      }
+
       return { files, warnings, nativeFeatures, degradedFeatures };
     },
   };
 }
 
-export const genericMarkdownAdapter = createGenericAdapter('generic-markdown', 'AGENTS.md');
+export const genericMarkdownAdapter = createGenericAdapter('generic-markdown', 'AGENTS.md', {
+  nestedPackages: true,
+});
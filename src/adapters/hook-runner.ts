@@ -0,0 +1,230 @@
+// Source of `.agentrc/bin/agentrc-hook`, the script native hooks run through.
+// It is plain Node with no dependencies so it works wherever the platform runs hooks.
+// Glob matching mirrors src/core/glob.ts (tests check they agree). Dynamic imports keep
+// it valid as CommonJS or as ESM under a `"type": "module"` package.json.
+
+/** Where the runner is written, relative to the project root */
+export const HOOK_RUNNER_PATH = '.agentrc/bin/agentrc-hook';
+
+export const HOOK_RUNNER_SOURCE = String.raw`#!/usr/bin/env node
+// agentrc hook runner. Reads the hook payload on stdin, finds the file it names, checks it
+// against --match globs, and runs the command with placeholders filled in (shell-quoted):
+//   {file} {dir} {ext}  the file, its directory, its extension (the command runs once per file)
+//   {files}             every file, space-separated
+//   {root}              the project root
+//   {tool}              the tool that triggered the hook (shell, edit, write, read, mcp)
+//
+// Usage: agentrc-hook [--file <field>]... [--match <glob>]... [--commit <field>] [--staged]
+//                     [--tool <field>]... [--tool-names <json>] [--only-tool <kind>]...
+//                     [--block | --deny <json>] [--stderr] -- <command>
+//   --file        payload field (dotted path) holding the file; the first one present wins
+//   --match       glob the file must match (brace groups, *, **, ?, [...], !negation)
+//   --commit      payload field holding a shell command; run only when it is a git commit
+//   --staged      use the staged files instead of the payload's file
+//   --tool        payload field holding the native tool name; the first one present wins
+//   --tool-names  JSON map of native tool names to tool kinds (a trailing * matches a prefix)
+//   --only-tool   run only when the tool is of this kind (for platforms without tool matchers)
+//   --block   exit 2 when the command fails
+//   --deny    print this JSON and exit 0 when the command fails
+//   --stderr  send command output to stderr (platforms that read JSON from stdout)
+
+(async () => {
+  const { spawnSync } = await import('node:child_process');
+  const { readFileSync } = await import('node:fs');
+  const { dirname, extname, isAbsolute, relative, resolve } = await import('node:path');
+
+  // The runner lives at <root>/.agentrc/bin/agentrc-hook
+  const root = resolve(dirname(process.argv[1]), '..', '..');
+  const opts = {
+    file: [], match: [], commit: undefined, staged: false, tool: [], toolNames: {}, onlyTool: [],
+    block: false, deny: undefined, stderr: false,
+  };
+  const argv = process.argv.slice(2);
+  let command = '';
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--file') opts.file.push(argv[++i]);
+    else if (arg === '--match') opts.match.push(argv[++i]);
+    else if (arg === '--commit') opts.commit = argv[++i];
+    else if (arg === '--staged') opts.staged = true;
+    else if (arg === '--tool') opts.tool.push(argv[++i]);
+    else if (arg === '--tool-names') opts.toolNames = JSON.parse(argv[++i]);
+    else if (arg === '--only-tool') opts.onlyTool.push(argv[++i]);
+    else if (arg === '--block') opts.block = true;
+    else if (arg === '--deny') opts.deny = argv[++i];
+    else if (arg === '--stderr') opts.stderr = true;
+    else {
+      // The command follows "--" (some launchers drop it, so the first other word works too)
+      command = argv.slice(arg === '--' ? i + 1 : i).join(' ');
+      break;
+    }
+  }
+
+  // Git hooks have no payload (stdin may be the terminal); agent pre-commit hooks do
+  let input = '';
+  let payload = {};
+  if (!opts.staged || opts.commit !== undefined) {
+    try {
+      input = readFileSync(0, 'utf-8');
+      payload = JSON.parse(input || '{}');
+    } catch {
+      payload = {};
+    }
+  }
+  const field = (path) =>
+    path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), payload);
+
+  const nativeTool = opts.tool.map(field).find((value) => typeof value === 'string' && value !== '');
+  const tool = nativeTool === undefined ? '' : toolKind(nativeTool);
+  if (opts.onlyTool.length > 0 && !opts.onlyTool.includes(tool)) process.exit(0);
+
+  // pre-commit hooks only run when the tool is about to commit
+  if (opts.commit !== undefined && !/\bgit\s+commit\b/.test(String(field(opts.commit) ?? ''))) {
+    process.exit(0);
+  }
+
+  let files = [];
+  if (opts.staged) {
+    const diff = spawnSync('git', ['diff', '--cached', '--name-only', '--diff-filter=ACMR'], {
+      cwd: root,
+      encoding: 'utf-8',
+    });
+    files = (diff.stdout || '').split('\n').filter(Boolean);
+  } else {
+    const file = opts.file.map(field).find((value) => typeof value === 'string' && value !== '');
+    if (file !== undefined) files = [file];
+  }
+
+  const toRelative = (file) =>
+    (isAbsolute(file) ? relative(root, file) : file).split('\\').join('/');
+  if (opts.match.length > 0) {
+    files = files.filter((file) => matchGlob(toRelative(file), opts.match));
+  }
+
+  const perFile = /\{(file|dir|ext)\}/.test(command);
+  const usesFiles = perFile || command.includes('{files}');
+  if ((opts.match.length > 0 || usesFiles) && files.length === 0) process.exit(0);
+
+  // One pass, so a file name that looks like a placeholder is left alone
+  const quote = (value) => "'" + value.split("'").join("'\\''") + "'";
+  const fill = (file) =>
+    command.replace(/\{(file|files|dir|ext|root|tool)\}/g, (_, name) => {
+      if (name === 'files') return files.map(quote).join(' ');
+      if (name === 'root') return quote(root);
+      if (name === 'tool') return quote(tool);
+      if (name === 'dir') return quote(dirname(file));
+      if (name === 'ext') return quote(extname(file).slice(1));
+      return quote(file);
+    });
+  const runs = perFile ? files.map(fill) : [fill(files[0] ?? '')];
+
+  let status = 0;
+  for (const run of runs) {
+    const result = spawnSync('sh', ['-c', run], {
+      input,
+      stdio: ['pipe', opts.stderr ? 2 : 'inherit', 'inherit'],
+    });
+    if (result.status !== 0 && status === 0) status = result.status ?? 1;
+  }
+
+  if (status === 0) process.exit(0);
+  if (opts.deny !== undefined) {
+    process.stdout.write(opts.deny + '\n');
+    process.exit(0);
+  }
+  process.exit(opts.block ? 2 : status);
+
+  function toolKind(name) {
+    for (const [native, kind] of Object.entries(opts.toolNames)) {
+      if (native.endsWith('*') ? name.startsWith(native.slice(0, -1)) : name === native) return kind;
+    }
+    return name;
+  }
+
+  function matchGlob(path, patterns) {
+    const positive = patterns.filter((p) => !p.startsWith('!'));
+    const negative = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+    const normalized = path.replace(/^\.\//, '');
+    const test = (glob) =>
+      expandBraces(glob.replace(/^\.\//, '')).some((g) => globToRegExp(g).test(normalized));
+    return (positive.length === 0 || positive.some(test)) && !negative.some(test);
+  }
+
+  function expandBraces(pattern) {
+    let depth = 0;
+    let start = -1;
+    for (let i = 0; i < pattern.length; i++) {
+      const ch = pattern[i];
+      if (ch === '{') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (ch === '}' && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          const before = pattern.slice(0, start);
+          const after = pattern.slice(i + 1);
+          const alternatives = splitTopLevel(pattern.slice(start + 1, i));
+          if (alternatives.length < 2) {
+            return expandBraces(after).map((rest) => before + '{' + (alternatives[0] ?? '') + '}' + rest);
+          }
+          return alternatives.flatMap((alt) => expandBraces(before + alt + after));
+        }
+      }
+    }
+    return [pattern];
+  }
+
+  function splitTopLevel(body) {
+    const parts = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of body) {
+      if (ch === '{') depth++;
+      if (ch === '}') depth--;
+      if (ch === ',' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  function globToRegExp(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const ch = glob[i];
+      if (ch === '*') {
+        if (glob[i + 1] === '*') {
+          if (glob[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+      } else if (ch === '?') {
+        source += '[^/]';
+      } else if (ch === '[') {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          source += '[' + glob.slice(i + 1, end).replace(/^!/, '^') + ']';
+          i = end;
+        }
+      } else if ('\\^$.|+()'.includes(ch)) {
+        source += '\\' + ch;
+      } else {
+        source += ch;
+      }
+    }
+    return new RegExp('^' + source + '$');
+  }
+})();
+`;
@@ -0,0 +1,205 @@
+// Shell commands for native platform hooks.
+// Platforms pass the hook a JSON payload on stdin. Hooks that need something from it (the
+// edited file, the command about to run) or a platform-specific way to block go through the
+// generated runner (see hook-runner.ts); each adapter says where its payload keeps things.
+
+import type { Hook, HookTool } from '../core/ir.ts';
+import type { OutputFile } from './adapter.ts';
+import { HOOK_RUNNER_PATH, HOOK_RUNNER_SOURCE } from './hook-runner.ts';
+
+/** Where a platform's hook payload keeps things, and how it expects a hook to block. */
+export interface HookPlatform {
+  /** Payload fields (dotted paths) that may hold the file a tool edited; the first present wins */
+  file: string[];
+  /** Payload field holding the shell command a tool is about to run (`pre-commit` hooks look for `git commit`) */
+  command: string;
+  /** Payload fields holding the native tool (or event) name, for `{tool}`; the first present wins */
+  tool: string[];
+  /** Native names for each tool kind, so `{tool}` is the same on every platform (`*` ends a prefix) */
+  toolNames: Record<HookTool, string[]>;
+  /** JSON a failing `blocking` hook prints to block the action (default: exit 2) */
+  deny?: string;
+  /** Send command output to stderr, for platforms that read a JSON response from stdout */
+  stderr?: boolean;
+}
+
+/** Placeholders that need the file(s) the event is about */
+const FILE_PLACEHOLDER = /\{(file|files|dir|ext)\}/;
+
+/** Placeholders the runner fills in */
+const RUNNER_PLACEHOLDER = /\{(file|files|dir|ext|root|tool)\}/;
+
+/** Runner flags that take a value */
+const VALUE_FLAGS = [
+  '--file',
+  '--match',
+  '--commit',
+  '--tool',
+  '--tool-names',
+  '--only-tool',
+  '--deny',
+];
+
+/** Quote a word for sh, leaving plain words bare. */
+function shellQuote(word: string): string {
+  return /^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Split a command line built from `shellQuote`d words. */
+function shellSplit(command: string): string[] {
+  const words: string[] = [];
+  for (const [, bare, quoted] of command.matchAll(/([^\s']+)|'((?:[^']|'\\'')*)'/g)) {
+    words.push(bare ?? (quoted ?? '').replace(/'\\''/g, "'"));
+  }
+  return words;
+}
+
+/** Resolve a `hooks/` script path to `.agentrc/hooks/`. */
+function resolveHookScript(run: string): string {
+  return run.startsWith('hooks/') ? `.agentrc/${run}` : run;
+}
+
+/** Whether a hook's command goes through the runner (it uses placeholders, reads the payload, or blocks). */
+function needsRunner(hook: Hook): boolean {
+  return (
+    RUNNER_PLACEHOLDER.test(hook.run) ||
+    (hook.match !== undefined && hook.match !== '') ||
+    hook.event === 'pre-commit' ||
+    hook.blocking === true
+  );
+}
+
+/**
+ * Build the shell command for a native hook.
+ * - `hooks/` script paths resolve to `.agentrc/hooks/`
+ * - Hooks that use placeholders or `match`, `pre-commit` hooks (which only run for `git commit`),
+ *   and `blocking` hooks run through the hook runner; the rest run as written
+ * - `pre-commit` hooks see the staged files; other events see the file in the payload
+ * - `onlyTools` limits the hook to those tool kinds, for platforms whose hooks can't
+ *   match on the tool themselves
+ */
+export function buildHookCommand(
+  hook: Hook,
+  platform: HookPlatform,
+  onlyTools?: HookTool[],
+): string {
+  const run = resolveHookScript(hook.run);
+  if (!needsRunner(hook) && onlyTools === undefined) return run;
+
+  const args: string[] = [];
+  if (FILE_PLACEHOLDER.test(hook.run) || hook.match) {
+    if (hook.event === 'pre-commit') args.push('--staged');
+    else for (const field of platform.file) args.push('--file', field);
+  }
+  if (hook.match) args.push('--match', hook.match);
+  if (hook.event === 'pre-commit') args.push('--commit', platform.command);
+  if (hook.run.includes('{tool}') || onlyTools !== undefined) {
+    for (const field of platform.tool) args.push('--tool', field);
+    const kinds = Object.entries(platform.toolNames).flatMap(([kind, names]) =>
+      names.map((name) => [name, kind]),
+    );
+    args.push('--tool-names', JSON.stringify(Object.fromEntries(kinds)));
+  }
+  for (const tool of onlyTools ?? []) args.push('--only-tool', tool);
+  if (hook.blocking) {
+    args.push(...(platform.deny !== undefined ? ['--deny', platform.deny] : ['--block']));
+  }
+  if (platform.stderr) args.push('--stderr');
+
+  return [HOOK_RUNNER_PATH, ...args, '--', run].map(shellQuote).join(' ');
+}
+
+/**
+ * Recover a hook's settings from a command `buildHookCommand` produced, for importers.
+ * Commands that don't go through the runner come back as written.
+ */
+export function unwrapHookCommand(command: string): {
+  run: string;
+  match?: string;
+  blocking: boolean;
+  preCommit: boolean;
+} {
+  const unwrapped = { run: command, blocking: false, preCommit: false };
+  if (!command.startsWith(`${HOOK_RUNNER_PATH} `)) return unwrapped;
+
+  const words = shellSplit(command).slice(1);
+  const separator = words.indexOf('--');
+  if (separator === -1) return unwrapped;
+
+  let match: string | undefined;
+  for (let i = 0; i < separator; i++) {
+    const word = words[i];
+    if (word === '--match') match = words[i + 1];
+    else if (word === '--commit') unwrapped.preCommit = true;
+    else if (word === '--block' || word === '--deny') unwrapped.blocking = true;
+    if (VALUE_FLAGS.includes(word ?? '')) i++;
+  }
+  unwrapped.run = words.slice(separator + 1).join(' ');
+  return match === undefined ? unwrapped : { ...unwrapped, match };
+}
+
+/** A platform's name for a tool kind, for simulated payloads (prefix patterns get a made-up name). */
+export function simulatedToolName(platform: HookPlatform, tool: HookTool): string | undefined {
+  return platform.toolNames[tool][0]?.replace(/\*$/, 'agentrc');
+}
+
+/** The runner script, when any of the hooks needs it. */
+export function hookRunnerFiles(hooks: Hook[]): OutputFile[] {
+  return hooks.some(needsRunner)
+    ? [{ path: HOOK_RUNNER_PATH, content: HOOK_RUNNER_SOURCE, executable: true }]
+    : [];
+}
+
+/**
+ * Group hooks by the native events they run on, for platforms that support some events.
+ * `mapEvent` returns a hook's native events; hooks with none are skipped with a warning.
+ * These platforms have no per-hook timeout, so `timeout` is reported as ignored.
+ */
+export function groupHooksByEvent(
+  hooks: Hook[],
+  mapEvent: (hook: Hook) => string[],
+  platformLabel: string,
+  warnings: string[],
+): Map<string, Hook[]> {
+  const grouped = new Map<string, Hook[]>();
+
+  for (const hook of hooks) {
+    const events = mapEvent(hook);
+    if (events.length === 0) {
+      warnings.push(
+        `Hook "${hook.description}" (${hook.event}) has no ${platformLabel} equivalent and was skipped`,
+      );
+      continue;
+    }
+    if (hook.timeout !== undefined) {
+      warnings.push(
+        `Hook "${hook.description}": ${platformLabel} hooks have no timeout setting, so timeout is ignored`,
+      );
+    }
+    for (const event of events) {
+      grouped.set(event, [...(grouped.get(event) ?? []), hook]);
+    }
+  }
+
+  return grouped;
+}
+
+/**
+ * Render the shell lines a git pre-commit hook runs for `pre-commit` hooks.
+ * Each hook goes through the runner against the staged files, so `match` and `{file}` work
+ * as they do on agent platforms. Every hook runs before the commit is stopped (exit 1) if any failed.
+ */
+export function renderGitPreCommit(hooks: Hook[]): string[] {
+  const lines = ['agentrc_failed=0'];
+
+  for (const hook of hooks) {
+    const args = ['--staged', ...(hook.match ? ['--match', hook.match] : [])];
+    const command = [HOOK_RUNNER_PATH, ...args, '--', resolveHookScript(hook.run)]
+      .map(shellQuote)
+      .join(' ');
+    lines.push('', `# ${hook.description}`, `${command} || agentrc_failed=1`);
+  }
+
+  lines.push('', '[ "$agentrc_failed" -eq 0 ] || exit 1');
+  return lines;
+}
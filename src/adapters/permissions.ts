@@ -0,0 +1,47 @@
+// Permission rules for platforms with project-level permission settings.
+// Each adapter says how a rule is written on its platform; rules it can't express are
+// skipped with a warning.
+
+import type { PermissionRule, Permissions } from '../core/ir.ts';
+
+/** A rule as it reads in config.yaml, for messages (`shell(npm test)`, `edit`). */
+export function formatPermissionRule(rule: PermissionRule): string {
+  return rule.pattern === undefined ? rule.tool : `${rule.tool}(${rule.pattern})`;
+}
+
+/** Whether any permission rules are set. */
+export function hasPermissions(permissions: Permissions): boolean {
+  return Object.values(permissions).some((rules) => rules.length > 0);
+}
+
+/**
+ * Write each list's rules in a platform's syntax. `mapRule` returns undefined for rules the
+ * platform can't express, which are skipped with a warning. Repeats and empty lists are dropped.
+ */
+export function mapPermissions(
+  permissions: Permissions,
+  mapRule: (rule: PermissionRule, list: keyof Permissions) => string | undefined,
+  platformLabel: string,
+  warnings: string[],
+): Partial<Record<keyof Permissions, string[]>> {
+  const mapped: Partial<Record<keyof Permissions, string[]>> = {};
+
+  for (const list of ['allow', 'ask', 'deny'] as const) {
+    const rules = new Set<string>();
+    for (const rule of permissions[list]) {
+      const native = mapRule(rule, list);
+      if (native === undefined) {
+        warnings.push(
+          `Permission ${list}: ${formatPermissionRule(rule)} has no ${platformLabel} equivalent and was skipped`,
+        );
+      } else {
+        rules.add(native);
+      }
+    }
+    if (rules.size > 0) {
+      mapped[list] = [...rules];
+    }
+  }
+
+  return mapped;
+}
@@ -1,4 +1,7 @@
-import type { Adapter } from './adapter.ts';
+import Ajv from 'ajv';
+import { resolveConditionals } from '../core/conditionals.ts';
+import type { IR } from '../core/ir.ts';
+import type { Adapter, AdapterOptions, AdapterResult } from './adapter.ts';
 import { claudeAdapter } from './claude.ts';
 import { clineAdapter } from './cline.ts';
 import { codexAdapter } from './codex.ts';
@@ -9,12 +12,25 @@ import { createGenericAdapter, genericMarkdownAdapter } from './generic-markdown
 import { windsurfAdapter } from './windsurf.ts';
 
 // Platform-specific aliases using the generic markdown factory
-const aiderAdapter = createGenericAdapter('aider', 'CONVENTIONS.md');
-const junieAdapter = createGenericAdapter('junie', '.junie/guidelines.md');
-const amazonqAdapter = createGenericAdapter('amazonq', '.amazonq/rules/agentrc.md');
-const ampAdapter = createGenericAdapter('amp', 'AGENTS.md');
-const rooAdapter = createGenericAdapter('roo', 'AGENTS.md');
+const aiderAdapter = createGenericAdapter('aider', 'CONVENTIONS.md', {
+  ignoreFile: '.aiderignore',
+  readConfig: '.aider.conf.yml',
+});
+const junieAdapter = createGenericAdapter('junie', '.junie/guidelines.md', {
+  mcp: { path: '.junie/mcp/mcp.json' },
+  ignoreFile: '.aiignore',
+});
+const amazonqAdapter = createGenericAdapter('amazonq', '.amazonq/rules/agentrc.md', {
+  mcp: { path: '.amazonq/mcp.json' },
+});
+const ampAdapter = createGenericAdapter('amp', 'AGENTS.md', { nestedPackages: true });
+const rooAdapter = createGenericAdapter('roo', 'AGENTS.md', {
+  nestedPackages: true,
+  mcp: { path: '.roo/mcp.json', format: { httpType: 'streamable-http' } },
+  ignoreFile: '.rooignore',
+});
 
+// Adapters narrow their options type; the registry only deals in validated plain objects
 const adapters: Record<string, Adapter> = {
   claude: claudeAdapter,
   cursor: cursorAdapter,
@@ -48,3 +64,110 @@ export function getAdapter(name: string): Adapter {
 export function listAdapters(): string[] {
   return Object.keys(adapters);
 }
+
+const ajv = new Ajv({ allErrors: true });
+
+/**
+ * Validate a target's options (from a `{ name, options }` entry in config.yaml)
+ * against its adapter's schema. Throws if they don't match.
+ */
+export function validateTargetOptions(name: string, options: AdapterOptions): void {
+  const adapter = getAdapter(name);
+  if (!adapter.optionsSchema) {
+    if (Object.keys(options).length > 0) {
+      throw new Error(`Target "${name}" does not accept options`);
+    }
+    return;
+  }
+
+  const validate = ajv.compile(adapter.optionsSchema);
+  if (!validate(options)) {
+    const errors = validate.errors?.map((e) => `${e.instancePath || '/'}: ${e.message}`).join('; ');
+    throw new Error(`Invalid options for target "${name}": ${errors}`);
+  }
+}
+
+/** An IR item left out of a target because of its `targets`/`excludeTargets` frontmatter. */
+export interface ExcludedItem {
+  kind: 'rule' | 'command' | 'skill' | 'agent';
+  name: string;
+  reason: string;
+}
+
+export interface TargetSelection {
+  ir: IR;
+  excluded: ExcludedItem[];
+}
+
+/** Why an item doesn't apply to a target, or null when it does. */
+function exclusionReason(
+  item: { targets?: string[]; excludeTargets?: string[] },
+  target: string,
+): string | null {
+  if (item.targets && !item.targets.includes(target)) {
+    return `targets: ${item.targets.join(', ')}`;
+  }
+  if (item.excludeTargets?.includes(target)) {
+    return `excludeTargets: ${item.excludeTargets.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Narrow the IR to the rules, commands, skills, and agents meant for one target,
+ * resolving `agentrc:if` blocks in their content for that target.
+ */
+export function selectForTarget(ir: IR, target: string): TargetSelection {
+  const excluded: ExcludedItem[] = [];
+
+  const keep = <
+    T extends {
+      name: string;
+      content: string;
+      sourcePath: string;
+      targets?: string[];
+      excludeTargets?: string[];
+    },
+  >(
+    kind: ExcludedItem['kind'],
+    items: T[],
+  ): T[] =>
+    items
+      .filter((item) => {
+        const reason = exclusionReason(item, target);
+        if (reason !== null) {
+          excluded.push({ kind, name: item.name, reason });
+        }
+        return reason === null;
+      })
+      .map((item) => {
+        try {
+          return { ...item, content: resolveConditionals(item.content, target) };
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          throw new Error(`${item.sourcePath}: ${msg}`);
+        }
+      });
+
+  return {
+    ir: {
+      ...ir,
+      rules: keep('rule', ir.rules),
+      commands: keep('command', ir.commands),
+      skills: keep('skill', ir.skills),
+      agents: keep('agent', ir.agents),
+    },
+    excluded,
+  };
+}
+
+/**
+ * Run a target's adapter on the items meant for it,
+ * with the options configured for it in config.yaml.
+ */
+export function generateForTarget(name: string, ir: IR): AdapterResult {
+  const adapter = getAdapter(name);
+  const options = ir.targetOptions?.[name] ?? {};
+  validateTargetOptions(name, options);
+  return adapter.generate(selectForTarget(ir, name).ir, options);
+}
@@ -1,4 +1,5 @@
-import type { Rule, Skill } from '../core/ir.ts';
+import { posix } from 'node:path';
+import type { McpServer, Rule, Skill } from '../core/ir.ts';
 import type { OutputFile } from './adapter.ts';
 
 /** Render a glob-scoped rule with a file-match prefix */
@@ -13,6 +14,49 @@ export function renderDescriptionRule(rule: Rule): string {
   return `### ${rule.name}${desc}\n\n${rule.content}`;
 }
 
+/**
+ * Split rules into root rules and rules that belong to monorepo packages, grouped by package path.
+ * Used by platforms that read a nested instructions file per directory (AGENTS.md, GEMINI.md).
+ */
+export function partitionPackageRules(rules: Rule[]): {
+  rootRules: Rule[];
+  packageRules: Map<string, Rule[]>;
+} {
+  const rootRules: Rule[] = [];
+  const packageRules = new Map<string, Rule[]>();
+
+  for (const rule of rules) {
+    if (!rule.package) {
+      rootRules.push(rule);
+      continue;
+    }
+    const list = packageRules.get(rule.package) ?? [];
+    list.push(rule);
+    packageRules.set(rule.package, list);
+  }
+
+  return { rootRules, packageRules };
+}
+
+/**
+ * Render a package's rules for a nested instructions file inside the package directory.
+ * The file location already scopes them, so package-wide rules render plainly and
+ * narrower globs are shown relative to the package.
+ */
+export function renderPackageRules(rules: Rule[]): string {
+  const sections = rules.map((rule) => {
+    const prefix = `${rule.package}/`;
+    const localGlobs = (rule.globs ?? []).map((g) =>
+      g.startsWith(prefix) ? g.slice(prefix.length) : g,
+    );
+    if (localGlobs.length === 1 && localGlobs[0] === '**') {
+      return renderDescriptionRule(rule);
+    }
+    return renderGlobRule({ ...rule, globs: localGlobs });
+  });
+  return `${sections.join('\n\n').trim()}\n`;
+}
+
 /**
  * Inline a skill's reference files into its main content.
  * For platforms that don't support progressive disclosure (separate reference files),
@@ -53,12 +97,69 @@ export function pushSkillFiles(files: OutputFile[], skill: Skill, prefix: string
   files.push({
     path: `${prefix}/skills/${skill.name}/SKILL.md`,
     content: `${skill.content.trim()}\n`,
+    sources: [skill.sourcePath],
   });
 
   for (const [fileName, fileContent] of Object.entries(skill.files)) {
     files.push({
       path: `${prefix}/skills/${skill.name}/${fileName}`,
       content: fileContent,
+      sources: [skill.sourcePath],
     });
   }
 }
+
+/**
+ * Render the `context` files as a section of links, for platforms that can't load files
+ * themselves. Links are relative to `fromDir`, the directory of the file the section goes in.
+ */
+export function renderContextSection(contextFiles: string[], fromDir = '.'): string {
+  const links = contextFiles.map((file) => `- [${file}](${posix.relative(fromDir, file)})`);
+  return `## Project context\n\nRead these files before starting work:\n\n${links.join('\n')}`;
+}
+
+/** A platform ignore file listing the `ignore` patterns (written as a managed block) */
+export function ignoreFile(path: string, patterns: string[]): OutputFile {
+  return { path, content: `${patterns.join('\n')}\n`, ignoreFile: true };
+}
+
+/** Shape of a platform's MCP JSON file. Platforms agree on the basics and differ in the details. */
+export interface McpJsonFormat {
+  /** Top-level key holding the servers (default `mcpServers`) */
+  rootKey?: string;
+  /** `type` written on stdio entries (omitted when unset) */
+  stdioType?: string;
+  /** `type` written on http entries (omitted when unset) */
+  httpType?: string;
+  /** Key for an http server's URL (default `url`) */
+  urlKey?: string;
+}
+
+/** MCP servers as the entries of a platform's servers object, keyed by name */
+export function mcpJsonEntries(
+  servers: McpServer[],
+  format: McpJsonFormat = {},
+): Record<string, Record<string, unknown>> {
+  const entries: Record<string, Record<string, unknown>> = {};
+  for (const server of servers) {
+    const entry: Record<string, unknown> = {};
+    if (server.transport === 'stdio') {
+      if (format.stdioType) entry.type = format.stdioType;
+      entry.command = server.command;
+      if (server.args) entry.args = server.args;
+      if (server.env) entry.env = server.env;
+    } else {
+      if (format.httpType) entry.type = format.httpType;
+      entry[format.urlKey ?? 'url'] = server.url;
+      if (server.headers) entry.headers = server.headers;
+    }
+    entries[server.name] = entry;
+  }
+  return entries;
+}
+
+/** Render MCP servers as a platform's JSON config file */
+export function renderMcpJson(servers: McpServer[], format: McpJsonFormat = {}): string {
+  const entries = mcpJsonEntries(servers, format);
+  return `${JSON.stringify({ [format.rootKey ?? 'mcpServers']: entries }, null, 2)}\n`;
+}
@@ -1,22 +1,118 @@
-import type { IR } from '../core/ir.ts';
+import { flattenRuleName, type Hook, type HookTool, type IR } from '../core/ir.ts';
 import type { Adapter, AdapterResult, OutputFile } from './adapter.ts';
-import { inlineSkillContent } from './shared.ts';
+import {
+  buildHookCommand,
+  groupHooksByEvent,
+  type HookPlatform,
+  hookRunnerFiles,
+} from './hooks.ts';
+import { hasPermissions } from './permissions.ts';
+import { ignoreFile, inlineSkillContent, renderContextSection } from './shared.ts';
 
 const RULE_CHAR_LIMIT = 6_000;
 const TOTAL_CHAR_LIMIT = 12_000;
 
+/**
+ * Where Windsurf's hook payload keeps the edited file, the shell command, and the action.
+ * Windsurf doesn't tell edits from new files, so both report `{tool}` as `edit`.
+ */
+const WINDSURF_HOOK_PLATFORM: HookPlatform = {
+  file: ['tool_info.file_path'],
+  command: 'tool_info.command_line',
+  tool: ['agent_action_name'],
+  toolNames: {
+    shell: ['pre_run_command'],
+    edit: ['pre_write_code', 'post_write_code'],
+    write: [],
+    read: ['pre_read_code'],
+    mcp: ['pre_mcp_tool_use'],
+  },
+};
+
+/** Windsurf's pre-action events for each `tool` kind */
+const TOOL_EVENTS: Record<HookTool, string> = {
+  shell: 'pre_run_command',
+  edit: 'pre_write_code',
+  write: 'pre_write_code',
+  read: 'pre_read_code',
+  mcp: 'pre_mcp_tool_use',
+};
+
+/** Map an IR hook to the Windsurf hook events it runs on (none when Windsurf has no equivalent). */
+function mapHookEvent(hook: Hook): string[] {
+  switch (hook.event) {
+    case 'user-prompt-submit':
+      return ['pre_user_prompt'];
+    case 'pre-tool-use': {
+      const tools = hook.tool ?? (Object.keys(TOOL_EVENTS) as HookTool[]);
+      return [...new Set(tools.map((tool) => TOOL_EVENTS[tool]))];
+    }
+    case 'post-edit':
+    case 'post-create':
+      return ['post_write_code'];
+    case 'pre-commit':
+      return ['pre_run_command'];
+    case 'session-start':
+    case 'stop':
+    case 'subagent-stop':
+      return [];
+  }
+}
+
+/** The Windsurf event a hook runs on when `tool` fires it (pre-tool-use hooks have one per tool). */
+function nativeEventFor(hook: Hook, tool: HookTool | undefined): string | undefined {
+  const events = mapHookEvent(hook);
+  if (hook.event !== 'pre-tool-use') return events[0];
+  const event = tool && TOOL_EVENTS[tool];
+  return event && events.includes(event) ? event : undefined;
+}
+
+export interface WindsurfOptions {
+  /** Per-file character limit (defaults to Windsurf's 6,000) */
+  ruleCharLimit?: number;
+  /** Total character limit across all rule files (defaults to Windsurf's 12,000) */
+  totalCharLimit?: number;
+}
+
 /**
  * Windsurf adapter.
  *
  * Generates .windsurf/rules/*.md files with Windsurf-compatible frontmatter.
- * Enforces a 6,000 char limit per file and 12,000 char total.
+ * Enforces a 6,000 char limit per file and 12,000 char total (configurable via options).
  * Prioritizes higher-priority rules and drops low-priority ones if limits are exceeded.
  *
- * Skills degrade to a .windsurf/rules/agentrc-conventions.md file.
+ * Skills and links to the context files degrade to a .windsurf/rules/agentrc-conventions.md file.
+ * Hooks go to .windsurf/hooks.json (Cascade hooks; a pre-hook blocks by exiting 2).
+ * MCP servers are left out: Windsurf only reads them from the user-level mcp_config.json.
+ * `ignore` patterns go to .codeiumignore.
  */
-export const windsurfAdapter: Adapter = {
+export const windsurfAdapter: Adapter<WindsurfOptions> = {
   name: 'windsurf',
-  generate(ir: IR): AdapterResult {
+  hookSimulation: {
+    nativeEvent: nativeEventFor,
+    command: (hook) => buildHookCommand(hook, WINDSURF_HOOK_PLATFORM),
+    payload: (nativeEvent, event) => ({
+      trajectory_id: 'agentrc-hooks-run',
+      agent_action_name: nativeEvent,
+      tool_info: {
+        user_prompt: event.prompt,
+        file_path: event.file,
+        command_line: event.command,
+      },
+    }),
+    blocks: (_hook, _nativeEvent, { status }) => status === 2,
+  },
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      ruleCharLimit: { type: 'integer', minimum: 1 },
+      totalCharLimit: { type: 'integer', minimum: 1 },
+    },
+    additionalProperties: false,
+  },
+  generate(ir: IR, options: WindsurfOptions = {}): AdapterResult {
+    const ruleCharLimit = options.ruleCharLimit ?? RULE_CHAR_LIMIT;
+    const totalCharLimit = options.totalCharLimit ?? TOTAL_CHAR_LIMIT;
     const files: OutputFile[] = [];
     const warnings: string[] = [];
     const nativeFeatures: string[] = ['instructions', 'scoped-rules'];
@@ -42,24 +138,25 @@ export const windsurfAdapter: Adapter = {
       const charCount = content.length;
 
       // Check per-file limit
-      if (charCount > RULE_CHAR_LIMIT) {
+      if (charCount > ruleCharLimit) {
         warnings.push(
-          `Rule "${rule.name}" is ${charCount} chars, exceeding Windsurf's ${RULE_CHAR_LIMIT}-char per-file limit. It will be truncated by Windsurf.`,
+          `Rule "${rule.name}" is ${charCount} chars, exceeding Windsurf's ${ruleCharLimit}-char per-file limit. It will be truncated by Windsurf.`,
         );
       }
 
       // Check total limit
-      if (totalChars + charCount > TOTAL_CHAR_LIMIT) {
+      if (totalChars + charCount > totalCharLimit) {
         warnings.push(
-          `Dropping rule "${rule.name}" (priority: ${rule.priority}): would exceed Windsurf's ${TOTAL_CHAR_LIMIT}-char total limit (current: ${totalChars} chars).`,
+          `Dropping rule "${rule.name}" (priority: ${rule.priority}): would exceed Windsurf's ${totalCharLimit}-char total limit (current: ${totalChars} chars).`,
         );
         continue;
       }
 
       totalChars += charCount;
       files.push({
-        path: `.windsurf/rules/${rule.name}.md`,
+        path: `.windsurf/rules/${flattenRuleName(rule.name)}.md`,
         content,
+        sources: [rule.sourcePath],
       });
     }
 
@@ -88,13 +185,18 @@ export const windsurfAdapter: Adapter = {
       }
     }
 
+    if (ir.contextFiles.length > 0) {
+      degradedFeatures.push('context (linked from conventions file)');
+      conventionSections.push(renderContextSection(ir.contextFiles, '.windsurf/rules'), '');
+    }
+
     if (conventionSections.length > 0) {
       const convContent = `---\ntrigger: always_on\n---\n\n${conventionSections.join('\n').trim()}\n`;
       const convCharCount = convContent.length;
 
-      if (totalChars + convCharCount > TOTAL_CHAR_LIMIT) {
+      if (totalChars + convCharCount > totalCharLimit) {
         warnings.push(
-          `Conventions file (skills) would exceed Windsurf's ${TOTAL_CHAR_LIMIT}-char total limit. Some degraded content may be truncated.`,
+          `Conventions file (skills) would exceed Windsurf's ${totalCharLimit}-char total limit. Some degraded content may be truncated.`,
         );
       }
 
@@ -104,6 +206,40 @@ export const windsurfAdapter: Adapter = {
       });
     }
 
+    const hooksByEvent = groupHooksByEvent(ir.hooks, mapHookEvent, 'Windsurf', warnings);
+    if (hooksByEvent.size > 0) {
+      nativeFeatures.push('hooks');
+      const hooks: Record<string, Array<{ command: string; show_output: boolean }>> = {};
+      for (const [event, eventHooks] of hooksByEvent) {
+        hooks[event] = eventHooks.map((hook) => ({
+          command: buildHookCommand(hook, WINDSURF_HOOK_PLATFORM),
+          show_output: true,
+        }));
+      }
+      files.push({
+        path: '.windsurf/hooks.json',
+        content: `${JSON.stringify({ hooks }, null, 2)}\n`,
+      });
+      files.push(...hookRunnerFiles([...hooksByEvent.values()].flat()));
+    }
+
+    if (ir.mcpServers.length > 0) {
+      degradedFeatures.push(
+        'mcp (omitted: Windsurf only reads ~/.codeium/windsurf/mcp_config.json)',
+      );
+    }
+
+    if (hasPermissions(ir.permissions)) {
+      degradedFeatures.push(
+        'permissions (omitted: Windsurf has no project-level permission settings)',
+      );
+    }
+
+    if (ir.ignores.length > 0) {
+      nativeFeatures.push('ignore');
+      files.push(ignoreFile('.codeiumignore', ir.ignores));
+    }
+
     return { files, warnings, nativeFeatures, degradedFeatures };
   },
 };
@@ -2,6 +2,7 @@
 import { Command } from 'commander';
 import { buildCommand } from './commands/build.ts';
 import { cleanCommand } from './commands/clean.ts';
+import { hooksRunCommand } from './commands/hooks.ts';
 import { initCommand } from './commands/init.ts';
 import { inspectCommand } from './commands/inspect.ts';
 import { migrateCommand } from './commands/migrate.ts';
@@ -20,6 +21,8 @@ program
   .description('Build platform-native config from .agentrc/')
   .option('-t, --targets <platforms>', 'Comma-separated target platforms')
   .option('--dry-run', 'Preview what would be generated without writing files')
+  .option('--lenient', 'Warn about invalid frontmatter instead of failing')
+  .option('--prune', 'Delete stale generated files that were not edited since')
   .action(async (options) => {
     try {
       await buildCommand(options);
@@ -53,12 +56,35 @@ program
     }
   });
 
+const hooks = program.command('hooks').description('Work with hooks');
+
+hooks
+  .command('run <event>')
+  .description('Run the hooks for an event the way each platform would')
+  .option('-f, --file <path>', 'File the event is about')
+  .option(
+    '-t, --target <platform>',
+    'Platform to replay on (default: configured targets with hooks)',
+  )
+  .option('--tool <kind>', 'Tool behind a pre-tool-use event (shell, edit, write, read, mcp)')
+  .option('--command <command>', 'Shell command the tool runs')
+  .option('--prompt <text>', 'Prompt for user-prompt-submit')
+  .action(async (event, options) => {
+    try {
+      await hooksRunCommand(event, options);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+  });
+
 program
   .command('clean')
   .description('Remove all generated files')
-  .action(async () => {
+  .option('-t, --targets <platforms>', 'Comma-separated target platforms whose files to remove')
+  .action(async (options) => {
     try {
-      await cleanCommand();
+      await cleanCommand(options);
     } catch (err) {
       console.error(err instanceof Error ? err.message : err);
       process.exit(1);
@@ -1,14 +1,21 @@
 import chalk from 'chalk';
 import type { OutputFile } from '../adapters/adapter.ts';
-import { getAdapter } from '../adapters/registry.ts';
+import { hookRunnerFiles, renderGitPreCommit } from '../adapters/hooks.ts';
+import { generateForTarget, getAdapter } from '../adapters/registry.ts';
 import { buildIR } from '../core/ir.ts';
-import { loadAgentrc } from '../core/loader.ts';
+import { frontmatterProblems, loadAgentrc } from '../core/loader.ts';
+import { combineOutputs, describeCollision, unresolvedCollisions } from '../output/collisions.ts';
+import { detectGitHookTarget, installGitHook, removeGitHook } from '../output/git-hooks.ts';
 import { updateGitignore } from '../output/gitignore.ts';
-import { writeOutputFiles } from '../output/writer.ts';
+import { readManifest, type WriteOptions, writeOutputFiles } from '../output/writer.ts';
 
 export interface BuildOptions {
   targets?: string; // comma-separated
   dryRun?: boolean;
+  /** Report frontmatter problems as warnings instead of failing */
+  lenient?: boolean;
+  /** Delete stale generated files (also on with `prune: true` in config.yaml) */
+  prune?: boolean;
 }
 
 export async function buildCommand(options: BuildOptions): Promise<void> {
@@ -18,11 +25,30 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
   console.log(chalk.blue('Loading .agentrc/ config...'));
   const source = await loadAgentrc(rootDir);
 
+  // Invalid frontmatter fails the build unless --lenient
+  const problems = frontmatterProblems(source, rootDir);
+  if (problems.length > 0) {
+    const color = options.lenient ? chalk.yellow : chalk.red;
+    console.log(color('\nFrontmatter problems:'));
+    for (const problem of problems) {
+      console.log(color(`  ${options.lenient ? '⚠' : '✗'} ${problem}`));
+    }
+    if (!options.lenient) {
+      throw new Error(
+        `Frontmatter validation failed with ${problems.length} error(s). Fix them or rerun with --lenient.`,
+      );
+    }
+  }
+
   // Build IR
-  const ir = buildIR(source);
+  const configured = buildIR(source);
 
-  // Determine targets (from CLI flag or config)
-  const targets = options.targets ? options.targets.split(',').map((t) => t.trim()) : ir.targets;
+  // Determine targets (from CLI flag or config). Adapters see only these, so Claude imports
+  // AGENTS.md only when this build writes it.
+  const targets = options.targets
+    ? options.targets.split(',').map((t) => t.trim())
+    : configured.targets;
+  const ir = { ...configured, targets };
 
   if (targets.length === 0) {
     console.log(
@@ -32,12 +58,13 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
   }
 
   // Run each adapter and collect all output files
-  const allFiles: OutputFile[] = [];
+  const outputs: Array<{ target: string; files: OutputFile[] }> = [];
+  const failed: string[] = [];
   for (const target of targets) {
     try {
       const adapter = getAdapter(target);
-      const result = adapter.generate(ir);
-      allFiles.push(...result.files);
+      const result = generateForTarget(target, ir);
+      outputs.push({ target, files: result.files });
 
       console.log(chalk.green(`\n${adapter.name}:`));
       for (const feat of result.nativeFeatures) {
@@ -50,28 +77,113 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
         console.log(chalk.yellow(`  ⚠ ${warn}`));
       }
     } catch (err) {
+      failed.push(target);
       console.error(
         chalk.red(`Failed to generate for ${target}: ${err instanceof Error ? err.message : err}`),
       );
     }
   }
 
+  // Targets can share a file (the hook runner); identical copies are written once, and
+  // different ones are merged or fail the build, per `collisions`
+  const strategy = source.config.collisions ?? 'error';
+  const { files: allFiles, collisions } = combineOutputs(outputs, strategy);
+  const unresolved = unresolvedCollisions(collisions, strategy);
+  if (collisions.length > 0) {
+    console.log(chalk.yellow('\nCollisions:'));
+    for (const collision of collisions) {
+      const resolution = unresolved.includes(collision) ? 'unresolved' : 'merged';
+      console.log(chalk.yellow(`  ⚠ ${describeCollision(collision)} (${resolution})`));
+    }
+  }
+  if (unresolved.length > 0 && !options.dryRun) {
+    throw new Error(
+      `${unresolved.length} output file(s) collide between targets. Set an outputPath for one of the targets, drop a target, or set collisions: merge (markdown files only).`,
+    );
+  }
+
+  // gitHooks: true runs pre-commit hooks from a real git pre-commit hook
+  const preCommitHooks = source.config.gitHooks
+    ? ir.hooks.filter((hook) => hook.event === 'pre-commit')
+    : [];
+  const gitHookTarget = preCommitHooks.length > 0 ? await detectGitHookTarget(rootDir) : null;
+  if (gitHookTarget) {
+    for (const file of hookRunnerFiles(preCommitHooks)) {
+      if (!allFiles.some((f) => f.path === file.path)) allFiles.push(file);
+    }
+  }
+  if (preCommitHooks.length > 0 && !gitHookTarget) {
+    console.log(
+      chalk.yellow(
+        '\n⚠ gitHooks is on, but there is no .git/ directory, lefthook config, or .husky/ to install into',
+      ),
+    );
+  }
+
+  // A build that leaves out configured targets, or fails on some, keeps their files in the
+  // manifest (and never prunes them)
+  const built = targets.filter((target) => !failed.includes(target));
+  const builtAll = configured.targets.every((target) => built.includes(target));
+  const writeOptions: WriteOptions = {
+    rootDir,
+    gitHook: gitHookTarget?.path,
+    managedBlocks: source.config.managedBlocks,
+    prune: options.prune || source.config.prune,
+    targets: builtAll ? undefined : built,
+  };
+
   // Write files (or dry-run)
   if (options.dryRun) {
     console.log(chalk.blue('\nDry run — files that would be written:'));
     for (const f of allFiles) {
       console.log(`  ${f.path}`);
     }
+    if (gitHookTarget) {
+      console.log(`  ${gitHookTarget.path} (pre-commit section)`);
+    }
+    // The writer works out which stale files a real build would delete, without touching them
+    if (writeOptions.prune) {
+      const { pruned } = await writeOutputFiles(allFiles, { ...writeOptions, dryRun: true });
+      if (pruned.length > 0) {
+        console.log(chalk.blue('\nFiles that would be pruned:'));
+        for (const path of pruned) {
+          console.log(`  ${path}`);
+        }
+      }
+    }
     return;
   }
 
-  const result = await writeOutputFiles(allFiles, { rootDir });
+  // Move or drop the section an earlier build installed
+  const previousGitHook = (await readManifest(rootDir))?.gitHook;
+  if (previousGitHook !== undefined && previousGitHook !== gitHookTarget?.path) {
+    await removeGitHook(rootDir, previousGitHook);
+  }
+  if (gitHookTarget) {
+    await installGitHook(rootDir, gitHookTarget, renderGitPreCommit(preCommitHooks));
+  }
+
+  const result = await writeOutputFiles(allFiles, writeOptions);
 
-  // Update .gitignore
-  await updateGitignore(rootDir, result.written);
+  // Update .gitignore with every tracked file, including other targets' (ignore files are
+  // shared with the user, so they stay tracked)
+  const manifest = await readManifest(rootDir);
+  await updateGitignore(
+    rootDir,
+    (manifest?.files ?? []).filter((entry) => !entry.block).map((entry) => entry.path),
+  );
 
   // Summary
   console.log(chalk.green(`\n✓ Generated ${result.written.length} files`));
+  if (gitHookTarget) {
+    console.log(chalk.green(`  Installed pre-commit hooks in ${gitHookTarget.path}`));
+  }
+  if (result.pruned.length > 0) {
+    console.log(chalk.green(`  Pruned ${result.pruned.length} stale files:`));
+    for (const path of result.pruned) {
+      console.log(`    ${path}`);
+    }
+  }
   if (result.backed_up.length > 0) {
     console.log(
       chalk.yellow(`  Backed up ${result.backed_up.length} existing files to .agentrc/.backup/`),
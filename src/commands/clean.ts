@@ -1,9 +1,16 @@
 import chalk from 'chalk';
-import { removeGitignoreBlock } from '../output/gitignore.ts';
+import { removeGitHook } from '../output/git-hooks.ts';
+import { removeGitignoreBlock, updateGitignore } from '../output/gitignore.ts';
 import { cleanGeneratedFiles, readManifest } from '../output/writer.ts';
 
-export async function cleanCommand(): Promise<void> {
+export interface CleanOptions {
+  /** Only remove these targets' files (comma-separated) */
+  targets?: string;
+}
+
+export async function cleanCommand(options: CleanOptions = {}): Promise<void> {
   const rootDir = process.cwd();
+  const targets = options.targets?.split(',').map((t) => t.trim());
 
   // Check for manifest
   const manifest = await readManifest(rootDir);
@@ -12,11 +19,25 @@ export async function cleanCommand(): Promise<void> {
     return;
   }
 
-  // Delete all tracked files
-  const removed = await cleanGeneratedFiles(rootDir);
+  // Remove the git pre-commit section (the file itself may hold other hooks); it belongs to no target
+  const removedGitHook =
+    targets === undefined &&
+    manifest.gitHook !== undefined &&
+    (await removeGitHook(rootDir, manifest.gitHook));
+
+  // Delete the tracked files
+  const removed = await cleanGeneratedFiles(rootDir, targets);
 
-  // Remove .gitignore managed block
-  await removeGitignoreBlock(rootDir);
+  // Remove .gitignore managed block, or shrink it to the files left
+  const remaining = (await readManifest(rootDir))?.files.filter((entry) => !entry.block) ?? [];
+  if (remaining.length > 0) {
+    await updateGitignore(
+      rootDir,
+      remaining.map((entry) => entry.path),
+    );
+  } else {
+    await removeGitignoreBlock(rootDir);
+  }
 
   // Report what was removed
   if (removed.length > 0) {
@@ -27,4 +48,7 @@ export async function cleanCommand(): Promise<void> {
   } else {
     console.log(chalk.yellow('No generated files found to remove.'));
   }
+  if (removedGitHook) {
+    console.log(chalk.green(`✓ Removed pre-commit hooks from ${manifest.gitHook}`));
+  }
 }
@@ -0,0 +1,172 @@
+import { spawnSync } from 'node:child_process';
+import { relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { SimulatedHookEvent } from '../adapters/adapter.ts';
+import { HOOK_RUNNER_PATH } from '../adapters/hook-runner.ts';
+import { getAdapter } from '../adapters/registry.ts';
+import { HOOK_EVENTS, HOOK_TOOLS } from '../core/config.ts';
+import { matchGlob } from '../core/glob.ts';
+import { buildIR, type Hook, type HookEvent, type HookTool } from '../core/ir.ts';
+import { loadAgentrc } from '../core/loader.ts';
+import { pathExists } from '../utils.ts';
+
+export interface HooksRunOptions {
+  /** File the event is about */
+  file?: string;
+  /** Platform to replay the hooks on (default: every configured target with native hooks) */
+  target?: string;
+  /** Tool behind a pre-tool-use event */
+  tool?: string;
+  /** Shell command the tool runs (pre-tool-use with the shell tool, pre-commit) */
+  command?: string;
+  /** Prompt for user-prompt-submit */
+  prompt?: string;
+}
+
+/** The tool each tool event implies; pre-tool-use is told or guesses from the other options */
+function resolveTool(event: HookEvent, options: HooksRunOptions): HookTool | undefined {
+  if (options.tool !== undefined) {
+    if (event !== 'pre-tool-use') {
+      throw new Error('--tool only applies to pre-tool-use');
+    }
+    if (!HOOK_TOOLS.includes(options.tool as HookTool)) {
+      throw new Error(`Unknown tool "${options.tool}". Tools: ${HOOK_TOOLS.join(', ')}`);
+    }
+    return options.tool as HookTool;
+  }
+
+  switch (event) {
+    case 'pre-tool-use':
+      if (options.command !== undefined) return 'shell';
+      if (options.file !== undefined) return 'edit';
+      throw new Error(`pre-tool-use needs --tool (${HOOK_TOOLS.join(', ')})`);
+    case 'post-edit':
+      return 'edit';
+    case 'post-create':
+      return 'write';
+    case 'pre-commit':
+      return 'shell';
+    default:
+      return undefined;
+  }
+}
+
+/** Whether a hook fires for the event: its tool list and `match` glob (checked when a file is given). */
+function hookApplies(hook: Hook, tool: HookTool | undefined, file: string | undefined): boolean {
+  if (hook.tool && (tool === undefined || !hook.tool.includes(tool))) return false;
+  if (hook.match && file !== undefined) return matchGlob(file, hook.match);
+  // Without a file, only pre-commit hooks (which read the staged files) can pass a `match`
+  return !hook.match || hook.event === 'pre-commit';
+}
+
+/**
+ * Replay a hook event locally: pick the hooks that fire for it, then run the command each
+ * platform would, with a payload shaped like that platform's hook JSON.
+ */
+export async function hooksRunCommand(event: string, options: HooksRunOptions): Promise<void> {
+  const rootDir = process.cwd();
+
+  if (!HOOK_EVENTS.includes(event as HookEvent)) {
+    throw new Error(`Unknown hook event "${event}". Events: ${HOOK_EVENTS.join(', ')}`);
+  }
+  const hookEvent = event as HookEvent;
+  const tool = resolveTool(hookEvent, options);
+
+  const source = await loadAgentrc(rootDir);
+  const ir = buildIR(source);
+
+  // Default to the configured targets that run hooks natively
+  const targets = options.target
+    ? [options.target]
+    : ir.targets.filter((target) => getAdapter(target).hookSimulation !== undefined);
+  for (const target of targets) {
+    if (!getAdapter(target).hookSimulation) {
+      throw new Error(`Target "${target}" has no native hooks`);
+    }
+  }
+  if (targets.length === 0) {
+    throw new Error(
+      'No configured target runs hooks natively. Use --target (claude, cursor, windsurf, or cline).',
+    );
+  }
+
+  const file = options.file === undefined ? undefined : resolve(rootDir, options.file);
+  const relativeFile =
+    file === undefined ? undefined : relative(rootDir, file).split('\\').join('/');
+  const simulated: SimulatedHookEvent = {
+    rootDir,
+    tool,
+    file,
+    command:
+      options.command ??
+      (hookEvent === 'pre-commit' ? 'git commit -m "agentrc hooks run"' : undefined),
+    prompt:
+      options.prompt ?? (hookEvent === 'user-prompt-submit' ? 'agentrc hooks run' : undefined),
+  };
+
+  const hooks = ir.hooks.filter(
+    (hook) => hook.event === hookEvent && hookApplies(hook, tool, relativeFile),
+  );
+  const about = [relativeFile, tool && `tool: ${tool}`].filter(Boolean).join(', ');
+  console.log(chalk.blue(`\nReplaying ${hookEvent}${about ? ` (${about})` : ''}\n`));
+
+  if (hooks.length === 0) {
+    console.log(chalk.dim('No hooks run on this event.'));
+    return;
+  }
+
+  let failed = 0;
+  for (const hook of hooks) {
+    console.log(chalk.bold(hook.description));
+
+    for (const target of targets) {
+      const simulation = getAdapter(target).hookSimulation;
+      const nativeEvent = simulation?.nativeEvent(hook, tool);
+      if (!simulation || nativeEvent === undefined) {
+        console.log(chalk.dim(`  ${target}: no equivalent event, skipped`));
+        continue;
+      }
+
+      const command = simulation.command(hook, nativeEvent);
+      console.log(`  ${target} ${chalk.dim(`(${nativeEvent})`)}`);
+      console.log(chalk.cyan(`    $ ${command}`));
+
+      if (
+        command.startsWith(`${HOOK_RUNNER_PATH} `) &&
+        !(await pathExists(resolve(rootDir, HOOK_RUNNER_PATH)))
+      ) {
+        throw new Error(`${HOOK_RUNNER_PATH} not found. Run agentrc build first.`);
+      }
+
+      const result = spawnSync('sh', ['-c', command], {
+        cwd: rootDir,
+        input: JSON.stringify(simulation.payload(nativeEvent, simulated)),
+        encoding: 'utf-8',
+        timeout: hook.timeout === undefined ? undefined : hook.timeout * 1000,
+      });
+
+      for (const line of `${result.stdout}${result.stderr}`.trimEnd().split('\n')) {
+        if (line) console.log(chalk.dim(`    │ ${line}`));
+      }
+      if (result.error || result.status === null) {
+        failed++;
+        console.log(chalk.red(`    ✗ ${result.error?.message ?? `killed by ${result.signal}`}`));
+        continue;
+      }
+      const status = { status: result.status, stdout: result.stdout };
+      if (simulation.blocks(hook, nativeEvent, status)) {
+        failed++;
+        console.log(chalk.red(`    ✗ exit ${result.status}, blocks the ${hookEvent}`));
+      } else if (result.status !== 0) {
+        failed++;
+        console.log(chalk.red(`    ✗ exit ${result.status}`));
+      } else {
+        console.log(chalk.green('    ✓ exit 0'));
+      }
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} hook command(s) failed`);
+  }
+}
@@ -1,7 +1,15 @@
 import chalk from 'chalk';
-import { getAdapter } from '../adapters/registry.ts';
-import { buildIR } from '../core/ir.ts';
+import type { OutputFile } from '../adapters/adapter.ts';
+import { generateForTarget, getAdapter, selectForTarget } from '../adapters/registry.ts';
+import type { CollisionStrategy } from '../core/config.ts';
+import { buildIR, type IR } from '../core/ir.ts';
 import { loadAgentrc } from '../core/loader.ts';
+import {
+  type Collision,
+  combineOutputs,
+  describeCollision,
+  unresolvedCollisions,
+} from '../output/collisions.ts';
 
 export async function inspectCommand(platform: string): Promise<void> {
   const rootDir = process.cwd();
@@ -12,7 +20,7 @@ export async function inspectCommand(platform: string): Promise<void> {
 
   // Get the adapter for the platform
   const adapter = getAdapter(platform);
-  const result = adapter.generate(ir);
+  const result = generateForTarget(platform, ir);
 
   console.log(chalk.blue(`\nInspecting output for: ${adapter.name}\n`));
 
@@ -32,6 +40,24 @@ export async function inspectCommand(platform: string): Promise<void> {
     }
   }
 
+  // Where each item came from (local .agentrc/ or an `extends:` preset)
+  const sources = describeSources(ir);
+  if (sources.length > 0) {
+    console.log('\nSources:');
+    for (const line of sources) {
+      console.log(`  ${line}`);
+    }
+  }
+
+  // Items left out by their targets/excludeTargets frontmatter
+  const { excluded } = selectForTarget(ir, platform);
+  if (excluded.length > 0) {
+    console.log(chalk.dim('\nFiltered out:'));
+    for (const item of excluded) {
+      console.log(chalk.dim(`  ${item.kind.padEnd(8)} ${item.name} (${item.reason})`));
+    }
+  }
+
   // Files that would be written
   if (result.files.length > 0) {
     console.log('\nFiles:');
@@ -41,11 +67,67 @@ export async function inspectCommand(platform: string): Promise<void> {
     }
   }
 
+  // Files the other configured targets write differently
+  const strategy = source.config.collisions ?? 'error';
+  const { collisions, failures } = findCollisions(ir, platform, result.files, strategy);
+  const unresolved = unresolvedCollisions(collisions, strategy);
+  if (collisions.length > 0) {
+    console.log(chalk.yellow('\nCollisions:'));
+    for (const collision of collisions) {
+      const resolution = unresolved.includes(collision) ? 'fails the build' : 'merged';
+      console.log(chalk.yellow(`  ⚠ ${describeCollision(collision)} (${resolution})`));
+    }
+  }
+
   // Warnings
-  if (result.warnings.length > 0) {
+  const warnings = [...result.warnings, ...failures];
+  if (warnings.length > 0) {
     console.log(chalk.yellow('\nWarnings:'));
-    for (const warn of result.warnings) {
+    for (const warn of warnings) {
       console.log(chalk.yellow(`  ⚠ ${warn}`));
     }
   }
 }
+
+/**
+ * Collisions between the platform's files and the other configured targets' files, and
+ * the targets that failed to generate (their files couldn't be checked).
+ */
+function findCollisions(
+  ir: IR,
+  platform: string,
+  files: OutputFile[],
+  strategy: CollisionStrategy,
+): { collisions: Collision[]; failures: string[] } {
+  const outputs = [{ target: platform, files }];
+  const failures: string[] = [];
+  for (const target of ir.targets) {
+    if (target === platform) continue;
+    try {
+      outputs.push({ target, files: generateForTarget(target, ir).files });
+    } catch (err) {
+      failures.push(
+        `Failed to generate for ${target}, so collisions with it weren't checked: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+  const collisions = combineOutputs(outputs, strategy).collisions.filter((collision) =>
+    collision.targets.includes(platform),
+  );
+  return { collisions, failures };
+}
+
+/** One line per IR item naming the layer it was loaded from. */
+function describeSources(ir: IR): string[] {
+  const line = (kind: string, name: string, layer: string | undefined) =>
+    `${kind.padEnd(8)} ${name} ${layer === undefined ? chalk.dim('(local)') : chalk.cyan(`(${layer})`)}`;
+
+  return [
+    ...ir.rules.map((r) => line('rule', r.name, r.layer)),
+    ...ir.commands.map((c) => line('command', c.name, c.layer)),
+    ...ir.skills.map((s) => line('skill', s.name, s.layer)),
+    ...ir.agents.map((a) => line('agent', a.name, a.layer)),
+    ...ir.hooks.map((h) => line('hook', `${h.event}: ${h.description}`, h.layer)),
+    ...ir.mcpServers.map((m) => line('mcp', m.name, m.layer)),
+  ];
+}
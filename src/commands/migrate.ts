@@ -154,8 +154,11 @@ async function writeImportResults(result: ImportResult, outputDir: string): Prom
     configData.hooks = result.hooks.map((h) => ({
       event: h.event,
       ...(h.match ? { match: h.match } : {}),
+      ...(h.tool ? { tool: h.tool } : {}),
       run: h.run,
       description: h.description,
+      ...(h.timeout !== undefined ? { timeout: h.timeout } : {}),
+      ...(h.blocking ? { blocking: true } : {}),
     }));
     imported.push('config.yaml (with hooks)');
   } else if (!(await pathExists(configPath))) {
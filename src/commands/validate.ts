@@ -1,6 +1,11 @@
+import { readFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
 import chalk from 'chalk';
+import { validateTargetOptions } from '../adapters/registry.ts';
+import { checkConditionals } from '../core/conditionals.ts';
 import { buildIR } from '../core/ir.ts';
-import { loadAgentrc } from '../core/loader.ts';
+import { frontmatterProblems, loadAgentrc } from '../core/loader.ts';
+import { pathExists } from '../utils.ts';
 
 export async function validateCommand(): Promise<void> {
   const rootDir = process.cwd();
@@ -12,6 +17,40 @@ export async function validateCommand(): Promise<void> {
   // Build IR (validates structure)
   const ir = buildIR(source);
 
+  // Check per-target options against each adapter's schema
+  for (const [target, options] of Object.entries(ir.targetOptions ?? {})) {
+    validateTargetOptions(target, options);
+  }
+
+  // Frontmatter that doesn't match its schema (unknown keys, wrong types, bad enum values)
+  const errors: string[] = frontmatterProblems(source, rootDir);
+
+  // Check agentrc:if blocks against the source files, so line numbers match the editor
+  const sourcePaths = new Set(
+    [...ir.rules, ...ir.commands, ...ir.skills, ...ir.agents].map((item) => item.sourcePath),
+  );
+  for (const sourcePath of sourcePaths) {
+    const raw = await readFile(sourcePath, 'utf-8');
+    for (const problem of checkConditionals(raw)) {
+      errors.push(`${relative(rootDir, sourcePath)}:${problem.line}: ${problem.message}`);
+    }
+  }
+
+  // Platforms reference context files rather than copying them, so they must exist
+  for (const file of ir.contextFiles) {
+    if (!(await pathExists(resolve(rootDir, file)))) {
+      errors.push(`context: ${file} not found`);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.log(chalk.red('\nErrors:'));
+    for (const error of errors) {
+      console.log(chalk.red(`  ✗ ${error}`));
+    }
+    throw new Error(`Validation failed with ${errors.length} error(s)`);
+  }
+
   // Report summary
   console.log(chalk.green('\n✓ Config is valid\n'));
   console.log(`  Rules:    ${ir.rules.length}`);
@@ -19,6 +58,7 @@ export async function validateCommand(): Promise<void> {
   console.log(`  Commands: ${ir.commands.length}`);
   console.log(`  Skills:   ${ir.skills.length}`);
   console.log(`  Agents:   ${ir.agents.length}`);
+  console.log(`  MCP:      ${ir.mcpServers.length}`);
   console.log(`  Targets:  ${ir.targets.length > 0 ? ir.targets.join(', ') : '(none)'}`);
 
   // Report warnings for rules with no scope
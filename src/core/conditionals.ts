@@ -0,0 +1,178 @@
+// Target-conditional blocks inside markdown bodies:
+//
+//   <!-- agentrc:if target=claude -->
+//   Use the Edit tool.
+//   <!-- agentrc:else -->
+//   Use apply_patch.
+//   <!-- agentrc:endif -->
+//
+// Conditions are `target=a,b` (any of) or `target!=a,b` (none of). Blocks can nest.
+
+import { TARGET_NAMES } from './config.ts';
+
+const DIRECTIVE = /<!--\s*agentrc:(\w+)\b(.*?)-->/g;
+const CONDITION = /^target\s*(!?=)\s*([\w-]+(?:\s*,\s*[\w-]+)*)$/;
+
+export interface ConditionalProblem {
+  /** 1-based line number within the checked text */
+  line: number;
+  message: string;
+}
+
+interface Directive {
+  kind: string;
+  condition: string;
+  line: number;
+  /** Span to cut from the output (the whole line when the directive stands alone) */
+  start: number;
+  end: number;
+}
+
+interface Condition {
+  negated: boolean;
+  targets: string[];
+}
+
+function parseCondition(condition: string): Condition | null {
+  const match = CONDITION.exec(condition.trim());
+  if (!match) return null;
+  return {
+    negated: match[1] === '!=',
+    targets: (match[2] as string).split(',').map((t) => t.trim()),
+  };
+}
+
+/** Find every `agentrc:` directive, widening standalone ones to their full line. */
+function findDirectives(text: string): Directive[] {
+  const directives: Directive[] = [];
+
+  for (const match of text.matchAll(DIRECTIVE)) {
+    let start = match.index;
+    let end = start + match[0].length;
+
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const newline = text.indexOf('\n', end);
+    const lineEnd = newline === -1 ? text.length : newline;
+    if (text.slice(lineStart, start).trim() === '' && text.slice(end, lineEnd).trim() === '') {
+      start = lineStart;
+      end = newline === -1 ? lineEnd : newline + 1;
+    }
+
+    directives.push({
+      kind: match[1] as string,
+      condition: (match[2] as string).trim(),
+      line: text.slice(0, match.index).split('\n').length,
+      start,
+      end,
+    });
+  }
+
+  return directives;
+}
+
+/**
+ * Report unbalanced blocks, malformed conditions, and unknown target names.
+ * Returns an empty list when the text is well-formed.
+ */
+export function checkConditionals(text: string): ConditionalProblem[] {
+  const problems: ConditionalProblem[] = [];
+  const open: Array<{ line: number; hasElse: boolean }> = [];
+
+  for (const directive of findDirectives(text)) {
+    const { kind, line } = directive;
+
+    if (kind === 'if') {
+      const condition = parseCondition(directive.condition);
+      if (!condition) {
+        problems.push({
+          line,
+          message: `Invalid condition "${directive.condition}" (expected target=name or target!=name)`,
+        });
+      } else {
+        for (const target of condition.targets) {
+          if (!TARGET_NAMES.includes(target)) {
+            problems.push({ line, message: `Unknown target "${target}" in agentrc:if` });
+          }
+        }
+      }
+      open.push({ line, hasElse: false });
+    } else if (kind === 'else') {
+      const block = open[open.length - 1];
+      if (!block) {
+        problems.push({ line, message: 'agentrc:else without a matching agentrc:if' });
+      } else if (block.hasElse) {
+        problems.push({
+          line,
+          message: `Second agentrc:else for the agentrc:if on line ${block.line}`,
+        });
+      } else {
+        block.hasElse = true;
+      }
+    } else if (kind === 'endif') {
+      if (!open.pop()) {
+        problems.push({ line, message: 'agentrc:endif without a matching agentrc:if' });
+      }
+    } else {
+      problems.push({ line, message: `Unknown directive "agentrc:${kind}"` });
+    }
+  }
+
+  for (const block of open) {
+    problems.push({ line: block.line, message: 'agentrc:if is never closed with agentrc:endif' });
+  }
+
+  return problems;
+}
+
+/**
+ * Keep the branches of conditional blocks that apply to `target` and drop the rest.
+ * Throws if the blocks are malformed (see `checkConditionals`).
+ */
+export function resolveConditionals(text: string, target: string): string {
+  const directives = findDirectives(text);
+  if (directives.length === 0) return text;
+
+  const problem = checkConditionals(text)[0];
+  if (problem) {
+    throw new Error(`${problem.message} (line ${problem.line})`);
+  }
+
+  // Each frame tracks whether its current branch is emitted
+  const stack: Array<{ matched: boolean; active: boolean }> = [];
+  const isActive = () => stack.every((frame) => frame.active);
+
+  let output = '';
+  let cursor = 0;
+
+  for (const directive of directives) {
+    if (isActive()) {
+      output = joinAtCut(output, text.slice(cursor, directive.start));
+    }
+    cursor = directive.end;
+
+    if (directive.kind === 'if') {
+      const condition = parseCondition(directive.condition) as Condition;
+      const matched = condition.targets.includes(target) !== condition.negated;
+      stack.push({ matched, active: matched });
+    } else if (directive.kind === 'else') {
+      const frame = stack[stack.length - 1] as (typeof stack)[number];
+      frame.active = !frame.matched;
+    } else {
+      stack.pop();
+    }
+  }
+  output = joinAtCut(output, text.slice(cursor));
+
+  return output.trim();
+}
+
+/**
+ * Join the text on either side of a removed directive or branch. The blank lines that meet
+ * at the cut collapse to one; blank lines anywhere else are content and stay as written.
+ */
+function joinAtCut(before: string, after: string): string {
+  const trailing = before.length - before.replace(/\n+$/, '').length;
+  const leading = after.length - after.replace(/^\n+/, '').length;
+  if (trailing + leading <= 2) return before + after;
+  return `${before.replace(/\n+$/, '')}\n\n${after.replace(/^\n+/, '')}`;
+}
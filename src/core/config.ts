@@ -1,13 +1,142 @@
 import Ajv from 'ajv';
+import matter from 'gray-matter';
 import { parse as parseYaml } from 'yaml';
-import type { Hook } from './ir.ts';
+import type { Hook, HookEvent, HookTool, McpServer, PermissionRule, Permissions } from './ir.ts';
 
 export interface AgentrcConfig {
   version: string;
+  /** Target names, in config order (object entries contribute their `name`) */
   targets: string[];
+  /** Options from `{ name, options }` target entries, keyed by target name */
+  targetOptions?: Record<string, Record<string, unknown>>;
   hooks: Hook[];
+  /** MCP servers, in config order */
+  mcpServers?: McpServer[];
+  permissions?: Permissions;
+  /** Paths agents should not read, as gitignore patterns */
+  ignore?: string[];
+  /** Project docs every platform loads as context, relative to the project root */
+  context?: string[];
+  /** Install `pre-commit` hooks as a real git pre-commit hook on build */
+  gitHooks?: boolean;
+  /** What build does when targets write different content to the same file (default `error`) */
+  collisions?: CollisionStrategy;
+  /** Write markdown into hand-written files between agentrc:start/end markers instead of replacing them */
+  managedBlocks?: boolean;
+  /** Delete stale generated files on build (as `build --prune` does) */
+  prune?: boolean;
+  packages?: string[];
+  /** Presets layered under the local .agentrc/ (paths or package names), lowest first */
+  extends?: string[];
+  /** User variables for `{{name}}` interpolation (values stringified) */
+  vars?: Record<string, string>;
 }
 
+/** `error` fails the build on a collision; `merge` concatenates the markdown files with target markers */
+export type CollisionStrategy = 'error' | 'merge';
+
+/** Every target name config.yaml (and item `targets` frontmatter) accepts */
+export const TARGET_NAMES = [
+  'claude',
+  'cursor',
+  'copilot',
+  'windsurf',
+  'cline',
+  'gemini',
+  'codex',
+  'aider',
+  'junie',
+  'amazonq',
+  'amp',
+  'roo',
+  'generic-markdown',
+];
+
+/** Every hook event config.yaml accepts */
+export const HOOK_EVENTS: HookEvent[] = [
+  'session-start',
+  'user-prompt-submit',
+  'pre-tool-use',
+  'post-edit',
+  'post-create',
+  'pre-commit',
+  'stop',
+  'subagent-stop',
+];
+
+/** Events whose action can be stopped by a failing `blocking` hook */
+export const BLOCKING_HOOK_EVENTS: HookEvent[] = [
+  'user-prompt-submit',
+  'pre-tool-use',
+  'pre-commit',
+  'stop',
+  'subagent-stop',
+];
+
+/** Tool kinds a `pre-tool-use` hook can match */
+export const HOOK_TOOLS: HookTool[] = ['shell', 'edit', 'write', 'read', 'mcp'];
+
+/** Events that hand a hook the file(s) involved (staged files for `pre-commit`) */
+const FILE_HOOK_EVENTS: HookEvent[] = ['pre-tool-use', 'post-edit', 'post-create', 'pre-commit'];
+
+/** Placeholders a hook's `run` can use, with the events that provide them (unset = every event) */
+export const HOOK_PLACEHOLDERS: Record<string, HookEvent[] | undefined> = {
+  file: FILE_HOOK_EVENTS,
+  files: FILE_HOOK_EVENTS,
+  dir: FILE_HOOK_EVENTS,
+  ext: FILE_HOOK_EVENTS,
+  root: undefined,
+  tool: ['pre-tool-use', 'post-edit', 'post-create'],
+};
+
+/** Schema for one hook, in config.yaml's `hooks:` or a `.agentrc/hooks/` file */
+const hookSchema = {
+  type: 'object',
+  required: ['event', 'run', 'description'],
+  properties: {
+    event: { type: 'string', enum: HOOK_EVENTS },
+    match: { type: 'string', description: 'Glob pattern for file matching' },
+    tool: {
+      oneOf: [
+        { type: 'string', enum: HOOK_TOOLS },
+        { type: 'array', items: { type: 'string', enum: HOOK_TOOLS }, minItems: 1 },
+      ],
+      description: 'Tools that trigger a pre-tool-use hook',
+    },
+    run: {
+      type: 'string',
+      description: 'Command to run. Placeholders: {file}, {files}, {dir}, {ext}, {root}, {tool}',
+    },
+    description: { type: 'string' },
+    timeout: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Seconds before the command is stopped',
+    },
+    blocking: {
+      type: 'boolean',
+      description: 'A failing command stops the action the hook guards',
+    },
+  },
+  additionalProperties: false,
+};
+
+/** A permission rule: a bare tool kind, or `{ <tool>: <pattern> }` */
+const permissionRuleSchema = {
+  oneOf: [
+    { type: 'string', enum: HOOK_TOOLS },
+    {
+      type: 'object',
+      properties: Object.fromEntries(
+        HOOK_TOOLS.map((tool) => [tool, { type: 'string', minLength: 1 }]),
+      ),
+      minProperties: 1,
+      maxProperties: 1,
+      additionalProperties: false,
+    },
+  ],
+};
+
 // Inline the schema so it gets bundled (avoids runtime fs reads that break in node dist builds)
 const schema = {
   $schema: 'http://json-schema.org/draft-07/schema#',
@@ -21,45 +150,199 @@ const schema = {
     targets: {
       type: 'array',
       items: {
-        type: 'string',
-        enum: [
-          'claude',
-          'cursor',
-          'copilot',
-          'windsurf',
-          'cline',
-          'gemini',
-          'codex',
-          'aider',
-          'junie',
-          'amazonq',
-          'amp',
-          'roo',
-          'generic-markdown',
+        oneOf: [
+          { type: 'string', enum: TARGET_NAMES },
+          {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', enum: TARGET_NAMES },
+              options: { type: 'object', description: 'Adapter-specific options' },
+            },
+            additionalProperties: false,
+          },
         ],
       },
-      description: 'Target platforms to generate config for',
+      description: 'Target platforms to generate config for, optionally with per-target options',
     },
     hooks: {
       type: 'array',
-      items: {
-        type: 'object',
-        required: ['event', 'run', 'description'],
-        properties: {
-          event: { type: 'string', enum: ['post-edit', 'pre-commit', 'post-create'] },
-          match: { type: 'string', description: 'Glob pattern for file matching' },
-          run: { type: 'string', description: 'Command to run' },
-          description: { type: 'string' },
-        },
-        additionalProperties: false,
+      items: hookSchema,
+    },
+    mcpServers: {
+      type: 'object',
+      propertyNames: { pattern: '^[A-Za-z0-9_-]+$' },
+      additionalProperties: {
+        oneOf: [
+          {
+            type: 'object',
+            required: ['command'],
+            properties: {
+              type: { const: 'stdio' },
+              command: { type: 'string', minLength: 1 },
+              args: { type: 'array', items: { type: 'string' } },
+              env: { type: 'object', additionalProperties: { type: 'string' } },
+            },
+            additionalProperties: false,
+          },
+          {
+            type: 'object',
+            required: ['url'],
+            properties: {
+              type: { const: 'http' },
+              url: { type: 'string', minLength: 1 },
+              headers: { type: 'object', additionalProperties: { type: 'string' } },
+            },
+            additionalProperties: false,
+          },
+        ],
+      },
+      description: 'MCP servers by name: stdio (command, args, env) or http (url, headers)',
+    },
+    permissions: {
+      type: 'object',
+      properties: {
+        allow: { type: 'array', items: permissionRuleSchema },
+        ask: { type: 'array', items: permissionRuleSchema },
+        deny: { type: 'array', items: permissionRuleSchema },
+      },
+      additionalProperties: false,
+      description:
+        'Tool uses to allow, ask about, or deny: shell (command prefix), read/edit/write (path glob), mcp (server)',
+    },
+    ignore: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description:
+        "Paths agents should not read (gitignore patterns), written to each platform's ignore file",
+    },
+    context: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description:
+        'Project docs every platform loads as context (paths from the project root, referenced rather than copied)',
+    },
+    gitHooks: {
+      type: 'boolean',
+      description:
+        'Run pre-commit hooks on git commit (managed section in .git/hooks/pre-commit, husky, or lefthook)',
+    },
+    collisions: {
+      enum: ['error', 'merge'],
+      description:
+        'When targets write different content to the same file: fail the build, or merge markdown files with target markers',
+    },
+    managedBlocks: {
+      type: 'boolean',
+      description:
+        'Write into hand-written markdown files (AGENTS.md, CLAUDE.md, ...) between agentrc:start/end markers instead of backing them up and replacing them',
+    },
+    prune: {
+      type: 'boolean',
+      description:
+        'Delete files an earlier build generated that are no longer produced, unless they were edited since',
+    },
+    packages: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Globs for monorepo package directories with nested .agentrc/ (defaults to workspaces)',
+    },
+    extends: {
+      oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+      description:
+        'Presets to inherit rules, commands, skills, agents, hooks, and MCP servers from (paths or packages)',
+    },
+    vars: {
+      type: 'object',
+      propertyNames: { pattern: '^[A-Za-z_][\\w.-]*$' },
+      additionalProperties: {
+        anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
       },
+      description: 'Variables interpolated into rule, command, agent, and hook content as {{name}}',
     },
   },
   additionalProperties: false,
 };
 
+type TargetEntry = string | { name: string; options?: Record<string, unknown> };
+
+type HookEntry = Omit<Hook, 'tool'> & { tool?: HookTool | HookTool[] };
+
+type PermissionEntry = HookTool | Partial<Record<HookTool, string>>;
+
+type McpServerEntry = Omit<McpServer, 'name' | 'transport'> & { type?: McpServer['transport'] };
+
 const ajv = new Ajv({ allErrors: true });
 const validate = ajv.compile(schema);
+const validateHook = ajv.compile(hookSchema);
+
+/**
+ * Normalize `tool` to a list and check the rules the schema can't express:
+ * `tool` only applies to pre-tool-use, only some events can block, and `run` only uses
+ * placeholders its event provides.
+ */
+function normalizeHook(entry: HookEntry, where: string): Hook {
+  if (entry.tool !== undefined && entry.event !== 'pre-tool-use') {
+    throw new Error(`${where}: tool only applies to pre-tool-use hooks`);
+  }
+  if (entry.blocking && !BLOCKING_HOOK_EVENTS.includes(entry.event)) {
+    throw new Error(
+      `${where}: ${entry.event} hooks can't block (blocking works on ${BLOCKING_HOOK_EVENTS.join(', ')})`,
+    );
+  }
+
+  // `{name}`, but not `{{var}}` or shell `${VAR}`. Other words in braces (awk's `{print}`)
+  // are left alone; only near-misses of a placeholder name (`{File}`) are rejected.
+  for (const [, name = ''] of entry.run.matchAll(/(?<![{$])\{(\w+)\}(?!\})/g)) {
+    const lower = name.toLowerCase();
+    if (!Object.keys(HOOK_PLACEHOLDERS).some((key) => key === lower)) continue;
+    if (!Object.hasOwn(HOOK_PLACEHOLDERS, name)) {
+      const known = Object.keys(HOOK_PLACEHOLDERS).map((key) => `{${key}}`);
+      throw new Error(`${where}: unknown placeholder {${name}} in run (use ${known.join(', ')})`);
+    }
+    const events = HOOK_PLACEHOLDERS[name];
+    if (events && !events.includes(entry.event)) {
+      throw new Error(
+        `${where}: ${entry.event} hooks have no {${name}} (it works on ${events.join(', ')})`,
+      );
+    }
+  }
+
+  const { tool, ...hook } = entry;
+  return tool === undefined ? hook : { ...hook, tool: typeof tool === 'string' ? [tool] : tool };
+}
+
+/**
+ * Parse a hook kept in its own file: YAML, or markdown with the hook in its frontmatter
+ * (the body is notes for people and isn't used). `name` labels errors. Checked the same way
+ * as a `hooks:` entry in config.yaml.
+ */
+export function parseHookFile(content: string, name: string): Hook {
+  let parsed: unknown;
+  try {
+    parsed = name.endsWith('.md') ? matter(content).data : parseYaml(content);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to parse ${name}: ${msg}`);
+  }
+
+  if (!validateHook(parsed)) {
+    const errors = validateHook.errors
+      ?.map((e) => `${e.instancePath || '/'}: ${e.message}`)
+      .join('; ');
+    throw new Error(`${name} validation failed: ${errors}`);
+  }
+  return normalizeHook(parsed as HookEntry, `${name} validation failed`);
+}
+
+/** Turn `shell` or `{ shell: "npm test" }` into a rule */
+function toPermissionRule(entry: PermissionEntry): PermissionRule {
+  if (typeof entry === 'string') return { tool: entry };
+  // The schema allows exactly one key
+  const [tool, pattern] = Object.entries(entry)[0] as [HookTool, string];
+  return { tool, pattern };
+}
 
 export function parseConfig(content: string): AgentrcConfig {
   // Parse YAML
@@ -84,9 +367,76 @@ export function parseConfig(content: string): AgentrcConfig {
 
   const data = parsed as Record<string, unknown>;
 
-  return {
+  // Targets are either bare names or { name, options } entries
+  const targets: string[] = [];
+  const targetOptions: Record<string, Record<string, unknown>> = {};
+  for (const entry of (data.targets as TargetEntry[] | undefined) ?? []) {
+    if (typeof entry === 'string') {
+      targets.push(entry);
+      continue;
+    }
+    targets.push(entry.name);
+    if (entry.options !== undefined) {
+      targetOptions[entry.name] = entry.options;
+    }
+  }
+
+  const config: AgentrcConfig = {
     version: data.version as string,
-    targets: (data.targets as string[] | undefined) ?? [],
-    hooks: (data.hooks as Hook[] | undefined) ?? [],
+    targets,
+    hooks: ((data.hooks as HookEntry[] | undefined) ?? []).map((entry, index) =>
+      normalizeHook(entry, `config.yaml validation failed: /hooks/${index}`),
+    ),
   };
+  if (Object.keys(targetOptions).length > 0) {
+    config.targetOptions = targetOptions;
+  }
+  if (data.mcpServers !== undefined) {
+    config.mcpServers = Object.entries(data.mcpServers as Record<string, McpServerEntry>).map(
+      ([name, { type: _type, ...entry }]) => ({
+        name,
+        transport: entry.command !== undefined ? 'stdio' : 'http',
+        ...entry,
+      }),
+    );
+  }
+  if (data.permissions !== undefined) {
+    const lists = data.permissions as Partial<Record<keyof Permissions, PermissionEntry[]>>;
+    config.permissions = {
+      allow: (lists.allow ?? []).map(toPermissionRule),
+      ask: (lists.ask ?? []).map(toPermissionRule),
+      deny: (lists.deny ?? []).map(toPermissionRule),
+    };
+  }
+  if (data.ignore !== undefined) {
+    config.ignore = data.ignore as string[];
+  }
+  if (data.context !== undefined) {
+    config.context = data.context as string[];
+  }
+  if (data.gitHooks !== undefined) {
+    config.gitHooks = data.gitHooks as boolean;
+  }
+  if (data.collisions !== undefined) {
+    config.collisions = data.collisions as CollisionStrategy;
+  }
+  if (data.managedBlocks !== undefined) {
+    config.managedBlocks = data.managedBlocks as boolean;
+  }
+  if (data.prune !== undefined) {
+    config.prune = data.prune as boolean;
+  }
+  if (data.packages !== undefined) {
+    config.packages = data.packages as string[];
+  }
+  if (data.vars !== undefined) {
+    config.vars = Object.fromEntries(
+      Object.entries(data.vars as Record<string, unknown>).map(([k, v]) => [k, String(v)]),
+    );
+  }
+  if (data.extends !== undefined) {
+    config.extends = typeof data.extends === 'string' ? [data.extends] : (data.extends as string[]);
+  }
+
+  return config;
 }
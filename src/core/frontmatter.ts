@@ -1,4 +1,7 @@
+import Ajv, { type ErrorObject } from 'ajv';
 import matter from 'gray-matter';
+import { isMap, isScalar, LineCounter, parseDocument } from 'yaml';
+import { TARGET_NAMES } from './config.ts';
 
 export interface ParsedFrontmatter {
   globs?: string[];
@@ -9,6 +12,10 @@ export interface ParsedFrontmatter {
   aliases?: string[];
   model?: string;
   tools?: string[];
+  /** Only emit this item for these targets */
+  targets?: string[];
+  /** Never emit this item for these targets */
+  excludeTargets?: string[];
 }
 
 export interface ParsedMarkdown {
@@ -58,8 +65,186 @@ export function parseFrontmatter(raw: string): ParsedMarkdown {
     frontmatter.tools = Array.isArray(data.tools) ? data.tools : [data.tools];
   }
 
+  // Normalize target filters: accept string or string[]
+  if (data.targets !== undefined) {
+    frontmatter.targets = Array.isArray(data.targets) ? data.targets : [data.targets];
+  }
+
+  if (data.excludeTargets !== undefined) {
+    frontmatter.excludeTargets = Array.isArray(data.excludeTargets)
+      ? data.excludeTargets
+      : [data.excludeTargets];
+  }
+
   return {
     frontmatter,
     content: content.trim(),
   };
 }
+
+/** The kinds of source file with frontmatter, each validated against its own schema. */
+export type SourceKind = 'rule' | 'command' | 'skill' | 'agent';
+
+/** A frontmatter problem, with a 1-based line number in the source file. */
+export interface FrontmatterProblem {
+  line: number;
+  message: string;
+}
+
+const stringOrList = {
+  oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+};
+const targetList = {
+  oneOf: [
+    { type: 'string', enum: TARGET_NAMES },
+    { type: 'array', items: { type: 'string', enum: TARGET_NAMES } },
+  ],
+};
+
+// Keys every kind accepts
+const commonProperties = {
+  description: { type: 'string' },
+  targets: targetList,
+  excludeTargets: targetList,
+};
+
+// Per-kind schemas. Besides agentrc's own keys, these allow the Claude Code keys that
+// `agentrc migrate` carries over, so imported files validate cleanly.
+const frontmatterSchemas: Record<SourceKind, object> = {
+  rule: {
+    type: 'object',
+    properties: {
+      ...commonProperties,
+      globs: stringOrList,
+      alwaysApply: { type: 'boolean' },
+      manual: { type: 'boolean' },
+      priority: { type: 'string', enum: ['critical', 'high', 'normal', 'low'] },
+    },
+    additionalProperties: false,
+  },
+  command: {
+    type: 'object',
+    properties: {
+      ...commonProperties,
+      aliases: stringOrList,
+      'argument-hint': { type: 'string' },
+      'allowed-tools': stringOrList,
+      model: { type: 'string' },
+      'disable-model-invocation': { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  skill: {
+    type: 'object',
+    properties: {
+      ...commonProperties,
+      name: { type: 'string' },
+      'allowed-tools': stringOrList,
+      'argument-hint': { type: 'string' },
+      model: { type: 'string' },
+      license: { type: 'string' },
+      version: { type: 'string' },
+      metadata: { type: 'object' },
+      'disable-model-invocation': { type: 'boolean' },
+      'user-invocable': { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  agent: {
+    type: 'object',
+    properties: {
+      ...commonProperties,
+      name: { type: 'string' },
+      model: { type: 'string' },
+      tools: stringOrList,
+      skills: stringOrList,
+      color: { type: 'string' },
+      permissionMode: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+};
+
+const ajv = new Ajv({ allErrors: true });
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n?---\s*(?:\r?\n|$)/;
+const validators = Object.fromEntries(
+  Object.entries(frontmatterSchemas).map(([kind, schema]) => [kind, ajv.compile(schema)]),
+) as Record<SourceKind, ReturnType<typeof ajv.compile>>;
+
+/** Suggest a known key for a likely typo (`glob` -> `globs`, `alwaysapply` -> `alwaysApply`). */
+function suggestKey(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  return known.find((k) => {
+    const candidate = k.toLowerCase();
+    return candidate === lower || candidate.startsWith(lower) || lower.startsWith(candidate);
+  });
+}
+
+/** One message for all the schema errors on a single known key. */
+function describeInvalidKey(key: string, errors: ErrorObject[]): string {
+  const enumError = errors.find((e) => e.keyword === 'enum');
+  if (enumError) {
+    const allowed = (enumError.params.allowedValues as string[]).join(', ');
+    return `Invalid value for "${key}": must be one of ${allowed}`;
+  }
+  // Union types (string or list) fail every branch; describe the union instead
+  if (errors.some((e) => e.keyword === 'oneOf')) {
+    return `Invalid "${key}": must be a string or a list of strings`;
+  }
+  return `Invalid "${key}": ${errors[0]?.message ?? 'invalid value'}`;
+}
+
+/**
+ * Validate a raw markdown file's frontmatter against the schema for its kind.
+ * Returns problems for unknown keys, wrong types, and invalid enum values,
+ * with line numbers pointing at the offending key in the file.
+ */
+export function validateFrontmatter(raw: string, kind: SourceKind): FrontmatterProblem[] {
+  const yamlText = FRONTMATTER.exec(raw)?.[1];
+  if (yamlText === undefined) return [];
+
+  // The YAML starts on line 2, after the opening ---
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yamlText, { lineCounter });
+  const data = doc.toJS() ?? {};
+
+  const validate = validators[kind];
+  if (validate(data)) return [];
+
+  // Locate each top-level key
+  const keyLines = new Map<string, number>();
+  if (isMap(doc.contents)) {
+    for (const pair of doc.contents.items) {
+      if (isScalar(pair.key) && pair.key.range) {
+        keyLines.set(String(pair.key.value), lineCounter.linePos(pair.key.range[0]).line + 1);
+      }
+    }
+  }
+
+  const known = Object.keys(
+    (frontmatterSchemas[kind] as { properties: Record<string, unknown> }).properties,
+  );
+  const problems: FrontmatterProblem[] = [];
+  const errorsByKey = new Map<string, ErrorObject[]>();
+
+  for (const error of validate.errors ?? []) {
+    if (error.keyword === 'additionalProperties') {
+      const key = String(error.params.additionalProperty);
+      const suggestion = suggestKey(key, known);
+      const hint = suggestion ? ` (did you mean "${suggestion}"?)` : '';
+      problems.push({
+        line: keyLines.get(key) ?? 1,
+        message: `Unknown ${kind} frontmatter key "${key}"${hint}`,
+      });
+      continue;
+    }
+    const key = error.instancePath.split('/')[1] ?? '';
+    errorsByKey.set(key, [...(errorsByKey.get(key) ?? []), error]);
+  }
+
+  for (const [key, errors] of errorsByKey) {
+    problems.push({ line: keyLines.get(key) ?? 1, message: describeInvalidKey(key, errors) });
+  }
+
+  return problems.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,135 @@
+// Minimal glob matcher shared by package discovery and hook matching.
+// Supports `*`, `**`, `?`, `[...]` classes, `{a,b}` braces (nestable), and `!` negation.
+// The hook runner (src/adapters/hook-runner.ts) carries a copy; keep the two in step.
+
+/** Expand `{a,b}` brace groups into every alternative. Nested groups are expanded too. */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        const before = pattern.slice(0, start);
+        const after = pattern.slice(i + 1);
+        const alternatives = splitTopLevel(pattern.slice(start + 1, i));
+        // A group without a comma is literal, e.g. "{x}"
+        if (alternatives.length < 2) {
+          return expandBraces(after).map((rest) => `${before}{${alternatives[0] ?? ''}}${rest}`);
+        }
+        return alternatives.flatMap((alt) => expandBraces(`${before}${alt}${after}`));
+      }
+    }
+  }
+
+  return [pattern];
+}
+
+/** Split a brace group body on commas that aren't inside a nested group. */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const ch of body) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Convert a brace-free glob into an anchored RegExp matched against posix paths. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i] as string;
+
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches everything below
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if ('\\^$.|+()'.includes(ch)) {
+      source += `\\${ch}`;
+    } else {
+      source += ch;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Test a posix-style relative path against one or more globs.
+ * Negated globs (`!pattern`) exclude paths that a positive glob matched.
+ * With only negated globs, every other path matches.
+ */
+export function matchGlob(path: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  const positive = list.filter((p) => !p.startsWith('!'));
+  const negative = list.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+  const normalized = path.replace(/^\.\//, '');
+
+  const test = (glob: string) =>
+    expandBraces(glob.replace(/^\.\//, '')).some((g) => globToRegExp(g).test(normalized));
+
+  const included = positive.length === 0 || positive.some(test);
+  return included && !negative.some(test);
+}
+
+/**
+ * Whether paths below a posix-style directory could match any of the globs, so directory
+ * walks can skip whole subtrees. A `**` segment reaches any depth; with only negated globs,
+ * everything can match.
+ */
+export function mayMatchBelow(dir: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  const positive = list.filter((p) => !p.startsWith('!'));
+  if (positive.length === 0) return true;
+
+  const segments = dir.replace(/^\.\//, '').split('/');
+  const reaches = (glob: string) => {
+    const parts = glob.split('/');
+    for (const [i, segment] of segments.entries()) {
+      const part = parts[i];
+      if (part === undefined) return false;
+      if (part.includes('**')) return true;
+      if (!globToRegExp(part).test(segment)) return false;
+    }
+    return parts.length > segments.length;
+  };
+
+  return positive.some((glob) => expandBraces(glob.replace(/^\.\//, '')).some(reaches));
+}
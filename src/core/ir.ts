@@ -1,11 +1,14 @@
 // IR types: the normalized, platform-agnostic model
 
-import type { LoadedSource } from './loader.ts';
+import { TARGET_NAMES } from './config.ts';
+import type { LoadedPackage, LoadedSource } from './loader.ts';
+import { builtinVars, interpolate } from './vars.ts';
 
 export type RuleScope = 'always' | 'glob' | 'description' | 'manual';
 export type Priority = 'critical' | 'high' | 'normal' | 'low';
 
 export interface Rule {
+  /** Path under rules/ without `.md`, so nested rules are namespaced ("backend/api") */
   name: string;
   scope: RuleScope;
   content: string;
@@ -15,13 +18,70 @@ export interface Rule {
   manual?: boolean;
   priority: Priority;
   sourcePath: string;
+  /** Monorepo package directory (posix, relative to the repo root) the rule was loaded from */
+  package?: string;
+  /** `extends:` preset the rule was inherited from (unset for the project's own rules) */
+  layer?: string;
+  /** Only emit for these targets (unset = every target) */
+  targets?: string[];
+  /** Never emit for these targets */
+  excludeTargets?: string[];
 }
 
+/** Platform-neutral hook events, mapped to each platform's native hook names by its adapter */
+export type HookEvent =
+  | 'session-start'
+  | 'user-prompt-submit'
+  | 'pre-tool-use'
+  | 'post-edit'
+  | 'post-create'
+  | 'pre-commit'
+  | 'stop'
+  | 'subagent-stop';
+
+/** Tool kinds hooks and permissions refer to, mapped to each platform's tool names */
+export type HookTool = 'shell' | 'edit' | 'write' | 'read' | 'mcp';
+
 export interface Hook {
-  event: 'post-edit' | 'pre-commit' | 'post-create';
+  event: HookEvent;
   match?: string;
+  /** Tools that trigger a `pre-tool-use` hook (unset = every tool) */
+  tool?: HookTool[];
   run: string;
   description: string;
+  /** Seconds the platform lets the command run */
+  timeout?: number;
+  /** A failing command stops the tool call, prompt, stop, or commit it guards */
+  blocking?: boolean;
+  layer?: string;
+}
+
+/**
+ * A permission rule: a tool kind, optionally narrowed by `pattern` (a command prefix for
+ * `shell`, a path glob for `read`/`edit`/`write`, a server name for `mcp`).
+ */
+export interface PermissionRule {
+  tool: HookTool;
+  pattern?: string;
+}
+
+/** Tool uses allowed without asking, asked about, and refused */
+export interface Permissions {
+  allow: PermissionRule[];
+  ask: PermissionRule[];
+  deny: PermissionRule[];
+}
+
+export interface McpServer {
+  name: string;
+  /** `stdio` servers are launched with `command`; `http` servers are reached at `url` */
+  transport: 'stdio' | 'http';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  layer?: string;
 }
 
 export interface AgentCommand {
@@ -30,6 +90,9 @@ export interface AgentCommand {
   content: string;
   aliases?: string[];
   sourcePath: string;
+  layer?: string;
+  targets?: string[];
+  excludeTargets?: string[];
 }
 
 export interface Skill {
@@ -38,6 +101,9 @@ export interface Skill {
   content: string;
   files: Record<string, string>;
   sourcePath: string;
+  layer?: string;
+  targets?: string[];
+  excludeTargets?: string[];
 }
 
 export interface Agent {
@@ -47,6 +113,15 @@ export interface Agent {
   model?: string;
   tools?: string[];
   sourcePath: string;
+  layer?: string;
+  targets?: string[];
+  excludeTargets?: string[];
+}
+
+/** Per-item target include/exclude lists, set from frontmatter */
+interface IncludeExclude {
+  targets?: string[];
+  excludeTargets?: string[];
 }
 
 export interface IR {
@@ -55,7 +130,16 @@ export interface IR {
   commands: AgentCommand[];
   skills: Skill[];
   agents: Agent[];
+  mcpServers: McpServer[];
+  permissions: Permissions;
+  /** Paths agents should not read (gitignore patterns), for each platform's ignore file */
+  ignores: string[];
+  /** Project docs to load as context, as normalized paths from the project root */
+  contextFiles: string[];
+  /** Targets to generate: config.yaml's, or the ones a build was limited to with `--targets` */
   targets: string[];
+  /** Per-target adapter options from config.yaml, keyed by target name */
+  targetOptions?: Record<string, Record<string, unknown>>;
 }
 
 const priorityOrder: Record<Priority, number> = {
@@ -91,80 +175,257 @@ function determineScope(frontmatter: {
   return 'always';
 }
 
-export function buildIR(source: LoadedSource): IR {
-  // Convert loaded rules to IR Rules, sorted by priority
-  const rules: Rule[] = sortByPriority(
-    source.rules.map((r) => {
-      const fm = r.parsed.frontmatter;
-      const rule: Rule = {
-        name: r.name,
-        scope: determineScope(fm),
-        content: r.parsed.content,
-        priority: fm.priority ?? 'normal',
-        sourcePath: r.sourcePath,
-      };
-
-      if (fm.globs && fm.globs.length > 0) {
-        rule.globs = fm.globs;
-      }
-      if (fm.description !== undefined) {
-        rule.description = fm.description;
-      }
-      if (fm.alwaysApply !== undefined) {
-        rule.alwaysApply = fm.alwaysApply;
-      }
-      if (fm.manual !== undefined) {
-        rule.manual = fm.manual;
-      }
-
-      return rule;
-    }),
-  );
+/** Convert a loaded rule file into an IR Rule (unsorted). */
+function toRule(r: LoadedSource['rules'][number]): Rule {
+  const fm = r.parsed.frontmatter;
+  const rule: Rule = {
+    name: r.name,
+    scope: determineScope(fm),
+    content: r.parsed.content,
+    priority: fm.priority ?? 'normal',
+    sourcePath: r.sourcePath,
+  };
+
+  if (r.layer !== undefined) {
+    rule.layer = r.layer;
+  }
+  if (fm.globs && fm.globs.length > 0) {
+    rule.globs = fm.globs;
+  }
+  if (fm.description !== undefined) {
+    rule.description = fm.description;
+  }
+  if (fm.alwaysApply !== undefined) {
+    rule.alwaysApply = fm.alwaysApply;
+  }
+  if (fm.manual !== undefined) {
+    rule.manual = fm.manual;
+  }
+
+  return withTargets(rule, fm);
+}
+
+/**
+ * Copy `targets`/`excludeTargets` frontmatter onto an IR item.
+ * Target names agentrc doesn't know are dropped: frontmatter validation already reports
+ * them, failing the build unless it runs with `--lenient`.
+ */
+function withTargets<T extends IncludeExclude & { sourcePath: string }>(
+  item: T,
+  filters: IncludeExclude,
+): T {
+  for (const key of ['targets', 'excludeTargets'] as const) {
+    const list = filters[key];
+    if (list === undefined) continue;
+    item[key] = list.filter((t) => TARGET_NAMES.includes(t));
+  }
+  return item;
+}
+
+/** Turn a package path like "packages/api" into a filename-safe prefix ("packages-api"). */
+export function packageSlug(packagePath: string): string {
+  return packagePath.replace(/[^A-Za-z0-9._-]+/g, '-');
+}
+
+/**
+ * Flatten a nested rule name ("backend/api") for platforms whose rules live in a
+ * single directory ("backend-api").
+ */
+export function flattenRuleName(name: string): string {
+  return name.replaceAll('/', '-');
+}
+
+/** Reject rules whose names collide once flattened ("backend/api" vs "backend-api"). */
+function checkFlatRuleNames(rules: Rule[]): void {
+  const seen = new Map<string, Rule>();
+  for (const rule of rules) {
+    const flat = flattenRuleName(rule.name);
+    const existing = seen.get(flat);
+    if (existing) {
+      throw new Error(
+        `Rule "${rule.name}" in ${rule.sourcePath} collides with "${existing.name}" in ${existing.sourcePath} (both flatten to "${flat}")`,
+      );
+    }
+    seen.set(flat, rule);
+  }
+}
+
+/**
+ * Scope a package rule to its package directory.
+ * Rule globs are re-rooted under the package; rules without globs cover the whole package.
+ * The name is prefixed with the package slug so it can't collide with root rules.
+ */
+function scopeToPackage(rule: Rule, packagePath: string): Rule {
+  const globs = rule.globs
+    ? rule.globs.map((g) => `${packagePath}/${g.replace(/^\.?\//, '')}`)
+    : [`${packagePath}/**`];
+
+  return {
+    ...rule,
+    name: `${packageSlug(packagePath)}-${rule.name}`,
+    scope: 'glob',
+    globs,
+    package: packagePath,
+  };
+}
 
-  // Convert config hooks to IR Hooks (direct mapping)
-  const hooks: Hook[] = source.config.hooks;
+/** Append package items to a root list, rejecting name clashes. */
+function mergeNamed<T extends { name: string; sourcePath: string }>(
+  kind: string,
+  root: T[],
+  additions: T[],
+): T[] {
+  const merged = [...root];
+  for (const item of additions) {
+    const existing = merged.find((m) => m.name === item.name);
+    if (existing) {
+      throw new Error(
+        `Duplicate ${kind} "${item.name}" in ${item.sourcePath} (already defined in ${existing.sourcePath})`,
+      );
+    }
+    merged.push(item);
+  }
+  return merged;
+}
+
+/** Copy the `extends:` layer onto an IR item when it was inherited. */
+function withLayer<T extends { layer?: string }>(item: T, layer: string | undefined): T {
+  if (layer !== undefined) {
+    item.layer = layer;
+  }
+  return item;
+}
 
-  // Convert loaded commands to IR AgentCommands
-  const commands: AgentCommand[] = source.commands.map((c) => ({
+function toCommand(c: LoadedSource['commands'][number]): AgentCommand {
+  const command: AgentCommand = {
     name: c.name,
     description: c.parsed.frontmatter.description ?? '',
     content: c.parsed.content,
     aliases: c.parsed.frontmatter.aliases,
     sourcePath: c.sourcePath,
-  }));
+  };
+  return withTargets(withLayer(command, c.layer), c.parsed.frontmatter);
+}
 
-  // Convert loaded skills to IR Skills
-  const skills: Skill[] = source.skills.map((s) => ({
+function toSkill(s: LoadedSource['skills'][number]): Skill {
+  const skill: Skill = {
     name: s.name,
     description: s.description,
     content: s.content,
     files: s.files,
     sourcePath: s.sourcePath,
+  };
+  return withTargets(withLayer(skill, s.layer), s);
+}
+
+function toAgent(a: LoadedSource['agents'][number]): Agent {
+  const agent: Agent = {
+    name: a.name,
+    description: a.parsed.frontmatter.description ?? '',
+    content: a.parsed.content,
+    sourcePath: a.sourcePath,
+  };
+  if (a.parsed.frontmatter.model !== undefined) {
+    agent.model = a.parsed.frontmatter.model;
+  }
+  if (a.parsed.frontmatter.tools !== undefined) {
+    agent.tools = a.parsed.frontmatter.tools;
+  }
+  return withTargets(withLayer(agent, a.layer), a.parsed.frontmatter);
+}
+
+/** `./docs/a.md` and `docs\a.md` both become `docs/a.md` */
+function normalizeContextPath(path: string): string {
+  return path
+    .split('\\')
+    .join('/')
+    .replace(/^(\.\/)+/, '');
+}
+
+export function buildIR(source: LoadedSource): IR {
+  const packages: LoadedPackage[] = source.packages ?? [];
+
+  // {{variables}}: built-ins from project metadata, overridden by config vars.
+  // Undefined names are collected across every item and reported together.
+  const vars = {
+    ...(source.metadata ? builtinVars(source.metadata) : {}),
+    ...source.config.vars,
+  };
+  const undefinedVars: string[] = [];
+  const fill = (text: string, where: string, markdown = false): string => {
+    const result = interpolate(text, vars, { markdown });
+    undefinedVars.push(...result.missing.map((name) => `{{${name}}} in ${where}`));
+    return result.text;
+  };
+  const fillContent = <T extends { content: string; sourcePath: string }>(item: T): T => ({
+    ...item,
+    content: fill(item.content, item.sourcePath, true),
+  });
+
+  // Convert loaded rules to IR Rules (package rules scoped to their directory), sorted by priority
+  const packageRules = packages.flatMap((pkg) =>
+    pkg.rules.map((r) => scopeToPackage(toRule(r), pkg.path)),
+  );
+  const rules: Rule[] = sortByPriority([...source.rules.map(toRule), ...packageRules]).map(
+    fillContent,
+  );
+  checkFlatRuleNames(rules);
+
+  // Convert config hooks to IR Hooks (direct mapping, with variables in `run`)
+  const hooks: Hook[] = source.config.hooks.map((hook) => ({
+    ...hook,
+    run: fill(hook.run, `hook "${hook.description}"`),
   }));
 
-  // Convert loaded agents to IR Agents
-  const agents: Agent[] = source.agents.map((a) => {
-    const agent: Agent = {
-      name: a.name,
-      description: a.parsed.frontmatter.description ?? '',
-      content: a.parsed.content,
-      sourcePath: a.sourcePath,
-    };
-    if (a.parsed.frontmatter.model !== undefined) {
-      agent.model = a.parsed.frontmatter.model;
-    }
-    if (a.parsed.frontmatter.tools !== undefined) {
-      agent.tools = a.parsed.frontmatter.tools;
-    }
-    return agent;
+  // Commands, skills, and agents are global on every platform, so package items
+  // merge into the root lists and must have unique names
+  const commands: AgentCommand[] = mergeNamed(
+    'command',
+    source.commands.map(toCommand),
+    packages.flatMap((pkg) => pkg.commands.map(toCommand)),
+  ).map(fillContent);
+
+  const skills: Skill[] = mergeNamed(
+    'skill',
+    source.skills.map(toSkill),
+    packages.flatMap((pkg) => pkg.skills.map(toSkill)),
+  );
+
+  const agents: Agent[] = mergeNamed(
+    'agent',
+    source.agents.map(toAgent),
+    packages.flatMap((pkg) => pkg.agents.map(toAgent)),
+  ).map(fillContent);
+
+  // MCP servers: variables in the command line, env, URL, and headers
+  const fillValues = (values: Record<string, string>, where: string) =>
+    Object.fromEntries(Object.entries(values).map(([k, v]) => [k, fill(v, where)]));
+  const mcpServers: McpServer[] = (source.config.mcpServers ?? []).map((server) => {
+    const where = `MCP server "${server.name}"`;
+    const filled: McpServer = { ...server };
+    if (server.command !== undefined) filled.command = fill(server.command, where);
+    if (server.args) filled.args = server.args.map((arg) => fill(arg, where));
+    if (server.env) filled.env = fillValues(server.env, where);
+    if (server.url !== undefined) filled.url = fill(server.url, where);
+    if (server.headers) filled.headers = fillValues(server.headers, where);
+    return filled;
   });
 
+  if (undefinedVars.length > 0) {
+    throw new Error(`Undefined variables: ${undefinedVars.join('; ')}`);
+  }
+
   return {
     rules,
     hooks,
     commands,
     skills,
     agents,
+    mcpServers,
+    permissions: source.config.permissions ?? { allow: [], ask: [], deny: [] },
+    ignores: source.config.ignore ?? [],
+    contextFiles: [...new Set((source.config.context ?? []).map(normalizeContextPath))],
     targets: source.config.targets,
+    targetOptions: source.config.targetOptions ?? {},
   };
 }
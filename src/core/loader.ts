@@ -1,42 +1,114 @@
 import { readdir, readFile, stat } from 'node:fs/promises';
-import { basename, join, relative } from 'node:path';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import matter from 'gray-matter';
+import { parse as parseYaml } from 'yaml';
 import { isDirectory } from '../utils.ts';
 import type { AgentrcConfig } from './config.ts';
-import { parseConfig } from './config.ts';
-import type { ParsedMarkdown } from './frontmatter.ts';
-import { parseFrontmatter } from './frontmatter.ts';
+import { parseConfig, parseHookFile } from './config.ts';
+import type { FrontmatterProblem, ParsedMarkdown, SourceKind } from './frontmatter.ts';
+import { parseFrontmatter, validateFrontmatter } from './frontmatter.ts';
+import { matchGlob, mayMatchBelow } from './glob.ts';
+import type { Hook, McpServer, PermissionRule, Permissions } from './ir.ts';
+import { expandPartials, loadPartials, type Partials } from './partials.ts';
+import { type ProjectMetadata, readProjectMetadata } from './vars.ts';
+
+/**
+ * A parsed markdown source file (rule, command, or agent).
+ * `layer` names the `extends:` preset it was inherited from; local files have none.
+ */
+export interface LoadedMarkdown {
+  name: string;
+  parsed: ParsedMarkdown;
+  sourcePath: string;
+  layer?: string;
+  /** Frontmatter that doesn't match the schema for its kind (see `validateFrontmatter`) */
+  problems?: FrontmatterProblem[];
+}
+
+export interface LoadedSkill {
+  name: string;
+  description: string;
+  content: string;
+  files: Record<string, string>;
+  sourcePath: string;
+  layer?: string;
+  targets?: string[];
+  excludeTargets?: string[];
+  problems?: FrontmatterProblem[];
+}
 
 export interface LoadedSource {
   config: AgentrcConfig;
-  rules: Array<{ name: string; parsed: ParsedMarkdown; sourcePath: string }>;
-  commands: Array<{ name: string; parsed: ParsedMarkdown; sourcePath: string }>;
-  skills: Array<{
-    name: string;
-    description: string;
-    content: string;
-    files: Record<string, string>;
-    sourcePath: string;
-  }>;
-  agents: Array<{ name: string; parsed: ParsedMarkdown; sourcePath: string }>;
-}
-
-/** Read all .md files from a directory, returning parsed results. */
+  rules: LoadedMarkdown[];
+  commands: LoadedMarkdown[];
+  skills: LoadedSkill[];
+  agents: LoadedMarkdown[];
+  packages?: LoadedPackage[];
+  /** package.json and git facts for built-in `{{...}}` variables */
+  metadata?: ProjectMetadata;
+}
+
+/**
+ * A nested `.agentrc/` directory inside a monorepo package.
+ * `path` is the package directory relative to the repo root, in posix form (e.g. "packages/api").
+ */
+export interface LoadedPackage {
+  path: string;
+  rules: LoadedSource['rules'];
+  commands: LoadedSource['commands'];
+  skills: LoadedSource['skills'];
+  agents: LoadedSource['agents'];
+}
+
+/** Directory names never searched for nested `.agentrc/` packages. */
+const SKIP_PACKAGE_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage']);
+
+/**
+ * List .md files in a directory as posix paths relative to it, sorted by name.
+ * With `recursive`, subdirectories are walked too (`backend/api.md`).
+ */
+async function listMarkdownFiles(dir: string, recursive: boolean): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : 1))) {
+    if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(entry.name);
+    } else if (recursive && entry.isDirectory() && !entry.name.startsWith('.')) {
+      const nested = await listMarkdownFiles(join(dir, entry.name), true);
+      files.push(...nested.map((f) => `${entry.name}/${f}`));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read all .md files from a directory, expanding partials, returning parsed results.
+ * Names are the path without `.md`, so nested files get namespaced names (`backend/api`).
+ * Frontmatter is checked against the schema for `kind`; problems are recorded, not thrown.
+ */
 async function loadMarkdownFiles(
   dir: string,
-): Promise<Array<{ name: string; parsed: ParsedMarkdown; sourcePath: string }>> {
+  kind: SourceKind,
+  partials: Partials,
+  recursive = false,
+): Promise<LoadedMarkdown[]> {
   if (!(await isDirectory(dir))) return [];
 
-  const entries = await readdir(dir);
-  const mdFiles = entries.filter((f) => f.endsWith('.md')).sort();
-
-  const results: Array<{ name: string; parsed: ParsedMarkdown; sourcePath: string }> = [];
+  const results: LoadedMarkdown[] = [];
 
-  for (const file of mdFiles) {
+  for (const file of await listMarkdownFiles(dir, recursive)) {
     const filePath = join(dir, file);
-    const raw = await readFile(filePath, 'utf-8');
+    const raw = expandPartials(await readFile(filePath, 'utf-8'), partials, filePath);
     const parsed = parseFrontmatter(raw);
-    const name = basename(file, '.md');
-    results.push({ name, parsed, sourcePath: filePath });
+    const name = file.slice(0, -'.md'.length);
+    const item: LoadedMarkdown = { name, parsed, sourcePath: filePath };
+    const problems = validateFrontmatter(raw, kind);
+    if (problems.length > 0) {
+      item.problems = problems;
+    }
+    results.push(item);
   }
 
   return results;
@@ -118,13 +190,8 @@ async function collectSkillFiles(
 async function loadSkill(
   skillDir: string,
   skillName: string,
-): Promise<{
-  name: string;
-  description: string;
-  content: string;
-  files: Record<string, string>;
-  sourcePath: string;
-} | null> {
+  partials: Partials,
+): Promise<LoadedSkill | null> {
   const skillMdPath = join(skillDir, 'SKILL.md');
 
   let skillRaw: string;
@@ -135,19 +202,323 @@ async function loadSkill(
     return null;
   }
 
-  const { frontmatter, content } = parseFrontmatter(skillRaw);
+  const expanded = expandPartials(skillRaw, partials, skillMdPath);
+  const { frontmatter, content } = parseFrontmatter(expanded);
 
   // Recursively read all supporting files in the skill directory
   const files: Record<string, string> = {};
   await collectSkillFiles(skillDir, skillDir, files);
 
-  return {
+  const skill: LoadedSkill = {
     name: skillName,
     description: frontmatter.description ?? '',
     content,
     files,
     sourcePath: skillMdPath,
   };
+  if (frontmatter.targets !== undefined) {
+    skill.targets = frontmatter.targets;
+  }
+  if (frontmatter.excludeTargets !== undefined) {
+    skill.excludeTargets = frontmatter.excludeTargets;
+  }
+  const problems = validateFrontmatter(expanded, 'skill');
+  if (problems.length > 0) {
+    skill.problems = problems;
+  }
+  return skill;
+}
+
+/**
+ * Load rules, commands, skills, and agents from a single `.agentrc/` directory.
+ * `{{> name}}` includes resolve against `partials`.
+ */
+async function loadItems(
+  agentrcDir: string,
+  partials: Partials,
+): Promise<Omit<LoadedPackage, 'path'>> {
+  // Load rules/**/*.md (subdirectories namespace the rule name)
+  const rules = await loadMarkdownFiles(join(agentrcDir, 'rules'), 'rule', partials, true);
+
+  // Load commands/*.md
+  const commands = await loadMarkdownFiles(join(agentrcDir, 'commands'), 'command', partials);
+
+  // Load skills/*/SKILL.md
+  const skills: LoadedSource['skills'] = [];
+  const skillsDir = join(agentrcDir, 'skills');
+  if (await isDirectory(skillsDir)) {
+    const skillEntries = await readdir(skillsDir);
+    const sortedEntries = skillEntries.sort();
+
+    for (const entry of sortedEntries) {
+      const entryPath = join(skillsDir, entry);
+      if (await isDirectory(entryPath)) {
+        const skill = await loadSkill(entryPath, entry, partials);
+        if (skill) {
+          skills.push(skill);
+        }
+      }
+    }
+  }
+
+  // Load agents/*.md
+  const agents = await loadMarkdownFiles(join(agentrcDir, 'agents'), 'agent', partials);
+
+  return { rules, commands, skills, agents };
+}
+
+/** Hook definition files; the rest of `hooks/` is scripts */
+const HOOK_FILE_EXTENSIONS = new Set(['.yaml', '.yml', '.md']);
+
+/**
+ * Load hooks defined one per file in `hooks/` (`.yaml`, `.yml`, or `.md` with frontmatter),
+ * sorted by file name. `label` prefixes the file in errors. Markdown without an `event` in
+ * its frontmatter (a README) is documentation, not a hook.
+ */
+async function loadHookFiles(agentrcDir: string, label: string): Promise<Hook[]> {
+  const hooksDir = join(agentrcDir, 'hooks');
+  if (!(await isDirectory(hooksDir))) return [];
+
+  const hooks: Hook[] = [];
+  const entries = await readdir(hooksDir, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => (a.name < b.name ? -1 : 1))) {
+    if (!entry.isFile() || !HOOK_FILE_EXTENSIONS.has(extname(entry.name))) continue;
+    const content = await readFile(join(hooksDir, entry.name), 'utf-8');
+    if (extname(entry.name) === '.md' && !isHookMarkdown(content)) continue;
+    hooks.push(parseHookFile(content, `${label}/hooks/${entry.name}`));
+  }
+  return hooks;
+}
+
+/** Whether a markdown file in `hooks/` declares a hook (has `event` in its frontmatter) */
+function isHookMarkdown(content: string): boolean {
+  try {
+    return matter(content).data.event !== undefined;
+  } catch {
+    // Broken frontmatter is reported by parseHookFile
+    return true;
+  }
+}
+
+/**
+ * Read the workspace package globs a monorepo already declares:
+ * `workspaces` in package.json (array or `{ packages }`) or `packages` in pnpm-workspace.yaml.
+ */
+async function readWorkspaceGlobs(rootDir: string): Promise<string[]> {
+  try {
+    const pkg = JSON.parse(await readFile(join(rootDir, 'package.json'), 'utf-8')) as {
+      workspaces?: string[] | { packages?: string[] };
+    };
+    const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+    if (workspaces && workspaces.length > 0) return workspaces;
+  } catch {
+    // No package.json (or not JSON), fall through to pnpm
+  }
+
+  try {
+    const raw = await readFile(join(rootDir, 'pnpm-workspace.yaml'), 'utf-8');
+    const parsed = parseYaml(raw) as { packages?: string[] } | null;
+    return parsed?.packages ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find nested `.agentrc/` directories in package directories matching the given globs
+ * (e.g. packages/api/.agentrc/). Skips hidden and dependency/build output directories, and
+ * directories no glob can reach (`packages/*` never walks below `packages/api`).
+ * Returns posix-style package paths relative to rootDir, sorted.
+ */
+async function discoverPackages(
+  rootDir: string,
+  patterns: string[],
+  currentDir = rootDir,
+): Promise<string[]> {
+  if (patterns.length === 0) return [];
+
+  const found: string[] = [];
+  const entries = await readdir(currentDir, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory()) continue;
+    if (entry.name.startsWith('.') || SKIP_PACKAGE_DIRS.has(entry.name)) continue;
+
+    const entryPath = join(currentDir, entry.name);
+    const packagePath = relative(rootDir, entryPath).split('\\').join('/');
+    if (matchGlob(packagePath, patterns) && (await isDirectory(join(entryPath, '.agentrc')))) {
+      found.push(packagePath);
+    }
+    // Only walk into directories the globs can still reach
+    if (mayMatchBelow(packagePath, patterns)) {
+      found.push(...(await discoverPackages(rootDir, patterns, entryPath)));
+    }
+  }
+
+  return found;
+}
+
+/** Everything a preset named in `extends:` contributes, including its own presets. */
+interface LoadedLayer extends Omit<LoadedPackage, 'path'> {
+  hooks: Hook[];
+  mcpServers: McpServer[];
+  permissions: Permissions;
+  ignore: string[];
+  context: string[];
+}
+
+const NO_PERMISSIONS: Permissions = { allow: [], ask: [], deny: [] };
+
+/**
+ * Resolve an `extends:` entry to an `.agentrc/`-shaped directory.
+ * Relative and absolute paths resolve against the extending config's project directory.
+ * Anything else is treated as a package name and looked up in node_modules, walking up
+ * parent directories like Node does. A `.agentrc/` subdirectory is used when present.
+ */
+async function resolvePreset(spec: string, baseDir: string): Promise<string> {
+  let presetDir: string | null = null;
+
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    presetDir = resolve(baseDir, spec);
+  } else {
+    let current = resolve(baseDir);
+    while (true) {
+      const candidate = join(current, 'node_modules', spec);
+      if (await isDirectory(candidate)) {
+        presetDir = candidate;
+        break;
+      }
+      const parent = dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+  }
+
+  if (presetDir === null || !(await isDirectory(presetDir))) {
+    throw new Error(`Cannot resolve extends "${spec}" from ${baseDir}`);
+  }
+
+  const nested = join(presetDir, '.agentrc');
+  return (await isDirectory(nested)) ? nested : presetDir;
+}
+
+/** Override base items with same-named items from the layer on top. */
+function overlay<T extends { name: string }>(base: T[], top: T[]): T[] {
+  const topNames = new Set(top.map((item) => item.name));
+  return [...base.filter((item) => !topNames.has(item.name)), ...top];
+}
+
+/** Append permission rules, dropping repeats. */
+function appendRules(base: PermissionRule[], top: PermissionRule[]): PermissionRule[] {
+  const ruleKey = (r: PermissionRule) => `${r.tool}\0${r.pattern ?? ''}`;
+  const baseRules = new Set(base.map(ruleKey));
+  return [...base, ...top.filter((r) => !baseRules.has(ruleKey(r)))];
+}
+
+/**
+ * Stack a layer on top of another: named items and MCP servers override by name,
+ * hooks, permission rules, ignore patterns, and context files append (deduped).
+ */
+function stackLayers(base: LoadedLayer, top: LoadedLayer): LoadedLayer {
+  const hookKey = (h: Hook) => `${h.event}\0${h.match ?? ''}\0${h.run}`;
+  const topHooks = new Set(top.hooks.map(hookKey));
+
+  return {
+    rules: overlay(base.rules, top.rules),
+    commands: overlay(base.commands, top.commands),
+    skills: overlay(base.skills, top.skills),
+    agents: overlay(base.agents, top.agents),
+    hooks: [...base.hooks.filter((h) => !topHooks.has(hookKey(h))), ...top.hooks],
+    mcpServers: overlay(base.mcpServers, top.mcpServers),
+    permissions: {
+      allow: appendRules(base.permissions.allow, top.permissions.allow),
+      ask: appendRules(base.permissions.ask, top.permissions.ask),
+      deny: appendRules(base.permissions.deny, top.permissions.deny),
+    },
+    ignore: [...new Set([...base.ignore, ...top.ignore])],
+    context: [...new Set([...base.context, ...top.context])],
+  };
+}
+
+/**
+ * Point a preset hook's `hooks/` script at the preset's own `hooks/` directory, as a path
+ * from the project root (adapters resolve a bare `hooks/` to the project's `.agentrc/hooks/`).
+ */
+function presetHook(hook: Hook, presetDir: string, rootDir: string): Hook {
+  if (!hook.run.startsWith('hooks/')) return hook;
+  const dir = relative(rootDir, presetDir).split(sep).join('/');
+  return { ...hook, run: `${dir}/${hook.run}` };
+}
+
+/**
+ * Load the presets listed in `extends:`, in order (later presets override earlier ones).
+ * `chain` holds the preset directories being loaded, to detect cycles.
+ */
+async function loadPresets(
+  specs: string[],
+  baseDir: string,
+  rootDir: string,
+  chain: string[],
+): Promise<LoadedLayer> {
+  let layer: LoadedLayer = {
+    rules: [],
+    commands: [],
+    skills: [],
+    agents: [],
+    hooks: [],
+    mcpServers: [],
+    permissions: NO_PERMISSIONS,
+    ignore: [],
+    context: [],
+  };
+
+  for (const spec of specs) {
+    const presetDir = await resolvePreset(spec, baseDir);
+    if (chain.includes(presetDir)) {
+      throw new Error(`Circular extends: ${[...chain, presetDir].join(' -> ')}`);
+    }
+
+    // A preset's config.yaml is optional; only its hooks, MCP servers, permissions, ignore
+    // patterns, context files, and extends are used (hooks/ files add to its hooks)
+    let presetConfig: AgentrcConfig | null = null;
+    try {
+      presetConfig = parseConfig(await readFile(join(presetDir, 'config.yaml'), 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        const msg = err instanceof Error ? err.message : String(err);
+        throw new Error(`Invalid config in extends "${spec}": ${msg}`);
+      }
+    }
+
+    const projectDir = basename(presetDir) === '.agentrc' ? dirname(presetDir) : presetDir;
+    const inherited = await loadPresets(presetConfig?.extends ?? [], projectDir, rootDir, [
+      ...chain,
+      presetDir,
+    ]);
+
+    const items = await loadItems(presetDir, await loadPartials(join(presetDir, 'partials')));
+    const tag = <T extends { layer?: string }>(list: T[]): T[] =>
+      list.map((item) => ({ ...item, layer: spec }));
+    const own: LoadedLayer = {
+      rules: tag(items.rules),
+      commands: tag(items.commands),
+      skills: tag(items.skills),
+      agents: tag(items.agents),
+      hooks: tag(
+        [...(presetConfig?.hooks ?? []), ...(await loadHookFiles(presetDir, spec))].map((hook) =>
+          presetHook(hook, presetDir, rootDir),
+        ),
+      ),
+      mcpServers: tag(presetConfig?.mcpServers ?? []),
+      permissions: presetConfig?.permissions ?? NO_PERMISSIONS,
+      ignore: presetConfig?.ignore ?? [],
+      context: presetConfig?.context ?? [],
+    };
+
+    layer = stackLayers(layer, stackLayers(inherited, own));
+  }
+
+  return layer;
 }
 
 export async function loadAgentrc(rootDir: string): Promise<LoadedSource> {
@@ -169,32 +540,70 @@ export async function loadAgentrc(rootDir: string): Promise<LoadedSource> {
 
   const config = parseConfig(configContent);
 
-  // Load rules/*.md
-  const rules = await loadMarkdownFiles(join(agentrcDir, 'rules'));
+  // Layer the project's own items over any presets from `extends:`
+  const inherited = await loadPresets(config.extends ?? [], rootDir, rootDir, [agentrcDir]);
+  const partials = await loadPartials(join(agentrcDir, 'partials'));
+  const local = await loadItems(agentrcDir, partials);
+  // config.yaml hooks come first, then hooks/ files by name
+  const { rules, commands, skills, agents, hooks, mcpServers, permissions, ignore, context } =
+    stackLayers(inherited, {
+      ...local,
+      hooks: [...config.hooks, ...(await loadHookFiles(agentrcDir, '.agentrc'))],
+      mcpServers: config.mcpServers ?? [],
+      permissions: config.permissions ?? NO_PERMISSIONS,
+      ignore: config.ignore ?? [],
+      context: config.context ?? [],
+    });
+  config.hooks = hooks;
+  if (mcpServers.length > 0) {
+    config.mcpServers = mcpServers;
+  }
+  if (Object.values(permissions).some((rules) => rules.length > 0)) {
+    config.permissions = permissions;
+  }
+  if (ignore.length > 0) {
+    config.ignore = ignore;
+  }
+  if (context.length > 0) {
+    config.context = context;
+  }
 
-  // Load commands/*.md
-  const commands = await loadMarkdownFiles(join(agentrcDir, 'commands'));
+  // Nested package .agentrc/ directories (monorepos). Their config.yaml, if any, is ignored:
+  // targets and hooks always come from the root config. Root partials are shared with
+  // packages, and a package's own partials win on name clashes.
+  const packageGlobs = config.packages ?? (await readWorkspaceGlobs(rootDir));
+  const packages: LoadedPackage[] = [];
+  for (const packagePath of await discoverPackages(rootDir, packageGlobs)) {
+    const packageDir = join(rootDir, packagePath, '.agentrc');
+    const packagePartials = new Map([
+      ...partials,
+      ...(await loadPartials(join(packageDir, 'partials'))),
+    ]);
+    const items = await loadItems(packageDir, packagePartials);
+    packages.push({ path: packagePath, ...items });
+  }
 
-  // Load skills/*/SKILL.md
-  const skills: LoadedSource['skills'] = [];
-  const skillsDir = join(agentrcDir, 'skills');
-  if (await isDirectory(skillsDir)) {
-    const skillEntries = await readdir(skillsDir);
-    const sortedEntries = skillEntries.sort();
+  const metadata = await readProjectMetadata(rootDir);
 
-    for (const entry of sortedEntries) {
-      const entryPath = join(skillsDir, entry);
-      if (await isDirectory(entryPath)) {
-        const skill = await loadSkill(entryPath, entry);
-        if (skill) {
-          skills.push(skill);
-        }
-      }
-    }
-  }
+  return { config, rules, commands, skills, agents, packages, metadata };
+}
 
-  // Load agents/*.md
-  const agents = await loadMarkdownFiles(join(agentrcDir, 'agents'));
+/**
+ * Every frontmatter problem in a loaded source, as "path:line: message".
+ * Paths are relative to `rootDir`.
+ */
+export function frontmatterProblems(source: LoadedSource, rootDir: string): string[] {
+  const packages = source.packages ?? [];
+  const items = [source, ...packages].flatMap((s) => [
+    ...s.rules,
+    ...s.commands,
+    ...s.skills,
+    ...s.agents,
+  ]);
 
-  return { config, rules, commands, skills, agents };
+  return items.flatMap((item) =>
+    (item.problems ?? []).map(
+      (p) => `${relative(rootDir, item.sourcePath)}:${p.line}: ${p.message}`,
+    ),
+  );
 }
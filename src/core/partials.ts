@@ -0,0 +1,67 @@
+// Shared markdown fragments from `.agentrc/partials/`, included with `{{> name}}`.
+// Includes are expanded in the raw file text before frontmatter parsing.
+
+import type { Dirent } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const INCLUDE = /\{\{>\s*([\w./-]+?)\s*\}\}/g;
+
+/** Partial name (path under partials/ without `.md`, posix) to file path and content. */
+export type Partials = Map<string, { path: string; content: string }>;
+
+/**
+ * Read every `.md` file under `partialsDir`, recursively.
+ * `partials/testing/conventions.md` is included as `{{> testing/conventions}}`.
+ */
+export async function loadPartials(partialsDir: string, prefix = ''): Promise<Partials> {
+  const partials: Partials = new Map();
+
+  let entries: Dirent[];
+  try {
+    entries = await readdir(partialsDir, { withFileTypes: true });
+  } catch {
+    return partials;
+  }
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = join(partialsDir, entry.name);
+    if (entry.isDirectory()) {
+      for (const [name, partial] of await loadPartials(entryPath, `${prefix}${entry.name}/`)) {
+        partials.set(name, partial);
+      }
+    } else if (entry.name.endsWith('.md')) {
+      const content = await readFile(entryPath, 'utf-8');
+      partials.set(`${prefix}${entry.name.slice(0, -3)}`, {
+        path: entryPath,
+        content: content.trimEnd(),
+      });
+    }
+  }
+
+  return partials;
+}
+
+/**
+ * Replace `{{> name}}` includes in `raw` with partial content, recursively.
+ * Throws on missing partials and include cycles, naming the including file.
+ */
+export function expandPartials(raw: string, partials: Partials, sourcePath: string): string {
+  const expand = (text: string, chain: string[]): string =>
+    text.replace(INCLUDE, (_match, name: string) => {
+      const partial = partials.get(name);
+      if (!partial) {
+        const parent = partials.get(chain[chain.length - 1] ?? '');
+        const from = parent ? `${parent.path}, via ${sourcePath}` : sourcePath;
+        throw new Error(`Partial "${name}" not found (included from ${from})`);
+      }
+      if (chain.includes(name)) {
+        throw new Error(
+          `Partial include cycle: ${[...chain, name].join(' -> ')} (included from ${sourcePath})`,
+        );
+      }
+      return expand(partial.content, [...chain, name]);
+    });
+
+  return expand(raw, []);
+}
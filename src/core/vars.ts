@@ -0,0 +1,165 @@
+// `{{name}}` variable interpolation: config.yaml `vars:` plus built-ins from package.json and git.
+
+import { readFile, stat } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+
+/** Project facts read from disk by the loader, used for built-in variables. */
+export interface ProjectMetadata {
+  /** Directory name of the project root */
+  dirName: string;
+  packageJson?: {
+    name?: string;
+    version?: string;
+    packageManager?: string;
+    scripts?: Record<string, string>;
+  };
+  /** Lockfiles present in the project root */
+  lockfiles: string[];
+  git?: {
+    branch?: string;
+    remote?: string;
+  };
+}
+
+const LOCKFILE_MANAGERS: Array<[string, string]> = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+// `{{name}}`, but not `${{ expr }}` (GitHub Actions expressions)
+const VARIABLE = /(\\)?(?<!\$)\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+// Fenced code blocks (to a matching fence or the end) and inline code spans
+const MARKDOWN_CODE =
+  /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[ \t]*$|$(?![\s\S]))|(`+)[^`\n]+?\2(?!`)/gm;
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/** Resolve the git directory, following the `gitdir:` pointer used by worktrees and submodules. */
+async function findGitDir(rootDir: string): Promise<string | null> {
+  const dotGit = join(rootDir, '.git');
+  try {
+    if ((await stat(dotGit)).isDirectory()) return dotGit;
+  } catch {
+    return null;
+  }
+  const pointer = (await readText(dotGit))?.match(/^gitdir:\s*(.+)$/m)?.[1];
+  return pointer ? resolve(rootDir, pointer.trim()) : null;
+}
+
+/** Read branch and origin URL straight from .git, without shelling out to git. */
+async function readGitMetadata(rootDir: string): Promise<ProjectMetadata['git']> {
+  const gitDir = await findGitDir(rootDir);
+  if (!gitDir) return undefined;
+
+  const git: NonNullable<ProjectMetadata['git']> = {};
+
+  const head = await readText(join(gitDir, 'HEAD'));
+  const branch = head?.match(/^ref:\s*refs\/heads\/(.+)$/m)?.[1];
+  if (branch) git.branch = branch.trim();
+
+  // Worktrees keep the shared config in the common dir
+  const commonDir = (await readText(join(gitDir, 'commondir')))?.trim();
+  const config = await readText(join(commonDir ? resolve(gitDir, commonDir) : gitDir, 'config'));
+  const origin = config?.match(/\[remote "origin"\]([^[]*)/)?.[1];
+  const url = origin?.match(/^\s*url\s*=\s*(.+)$/m)?.[1];
+  if (url) git.remote = url.trim();
+
+  return git;
+}
+
+/** Gather package.json, lockfile, and git facts for built-in variables. */
+export async function readProjectMetadata(rootDir: string): Promise<ProjectMetadata> {
+  const metadata: ProjectMetadata = { dirName: basename(resolve(rootDir)), lockfiles: [] };
+
+  const pkgRaw = await readText(join(rootDir, 'package.json'));
+  if (pkgRaw !== null) {
+    try {
+      metadata.packageJson = JSON.parse(pkgRaw);
+    } catch {
+      // A broken package.json just means no package built-ins
+    }
+  }
+
+  for (const [lockfile] of LOCKFILE_MANAGERS) {
+    if ((await readText(join(rootDir, lockfile))) !== null) {
+      metadata.lockfiles.push(lockfile);
+    }
+  }
+
+  const git = await readGitMetadata(rootDir);
+  if (git) metadata.git = git;
+
+  return metadata;
+}
+
+/**
+ * Flatten project metadata into built-in variables:
+ * `package.name`, `package.version`, `package.scripts.<name>`, `packageManager`,
+ * `git.branch`, `git.remote`, and `repo.name`.
+ */
+export function builtinVars(metadata: ProjectMetadata): Record<string, string> {
+  const vars: Record<string, string> = {};
+  const pkg = metadata.packageJson;
+
+  if (typeof pkg?.name === 'string') vars['package.name'] = pkg.name;
+  if (typeof pkg?.version === 'string') vars['package.version'] = pkg.version;
+  for (const [script, command] of Object.entries(pkg?.scripts ?? {})) {
+    if (typeof command === 'string') vars[`package.scripts.${script}`] = command;
+  }
+
+  // "pnpm@9.1.0" -> "pnpm"; otherwise infer from the lockfile
+  const fromField = pkg?.packageManager?.split('@')[0];
+  const fromLockfile = LOCKFILE_MANAGERS.find(([file]) => metadata.lockfiles.includes(file))?.[1];
+  const packageManager = fromField || fromLockfile;
+  if (packageManager) vars.packageManager = packageManager;
+
+  if (metadata.git?.branch) vars['git.branch'] = metadata.git.branch;
+  if (metadata.git?.remote) vars['git.remote'] = metadata.git.remote;
+
+  const remoteName = metadata.git?.remote?.match(/([^/:]+?)(?:\.git)?\/?$/)?.[1];
+  vars['repo.name'] = remoteName ?? metadata.dirName;
+
+  return vars;
+}
+
+/**
+ * Replace `{{name}}` with its value. `\{{name}}` is left as a literal `{{name}}`.
+ * Names without a value are collected in `missing` and left untouched. With `markdown`,
+ * unknown names in code blocks and code spans (template syntax being documented) are
+ * left untouched without counting as missing.
+ */
+export function interpolate(
+  text: string,
+  vars: Record<string, string>,
+  options: { markdown?: boolean } = {},
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const code = options.markdown
+    ? [...text.matchAll(MARKDOWN_CODE)].map((m) => [m.index, m.index + m[0].length])
+    : [];
+  const inCode = (offset: number) =>
+    code.some(([start = 0, end = 0]) => offset >= start && offset < end);
+
+  const replace = (match: string, escaped: string | undefined, name: string, offset: number) => {
+    if (escaped) return match.slice(1);
+    const value = vars[name];
+    if (value === undefined) {
+      if (!inCode(offset) && !missing.includes(name)) missing.push(name);
+      return match;
+    }
+    return value;
+  };
+  const result = text.replace(VARIABLE, replace);
+
+  return { text: result, missing };
+}
@@ -1,6 +1,8 @@
 import { readdir, readFile } from 'node:fs/promises';
 import { basename, join } from 'node:path';
 import matter from 'gray-matter';
+import { unwrapHookCommand } from '../adapters/hooks.ts';
+import type { HookTool } from '../core/ir.ts';
 import type {
   DetectedSource,
   ImportedAgent,
@@ -13,28 +15,80 @@ import type {
 } from './types.ts';
 import { isDirectory, pathExists, readDirRecursive } from './utils.ts';
 
+/** Claude Code tool names for each agentrc `tool` kind (inverse of the adapter's matchers) */
+const CLAUDE_TOOLS: Record<string, HookTool> = {
+  Bash: 'shell',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  Write: 'write',
+  Read: 'read',
+  'mcp__.*': 'mcp',
+};
+
+/** Reverse-map a PreToolUse matcher to `tool` kinds. Undefined means every tool; null, unknown tools. */
+function reverseMapTools(matcher: string): HookTool[] | undefined | null {
+  if (matcher === '' || matcher === '*') return undefined;
+  const tools: HookTool[] = [];
+  for (const name of matcher.split('|')) {
+    const tool = CLAUDE_TOOLS[name];
+    if (!tool) return null;
+    if (!tools.includes(tool)) tools.push(tool);
+  }
+  return tools;
+}
+
 /**
- * Reverse-map a Claude hook event/matcher pair to an agentrc hook event.
- * Returns null for events we don't support (e.g. SessionStart).
+ * Reverse-map a Claude hook (event, matcher, command) to an agentrc hook.
+ * Unwraps the hook runner calls the Claude adapter generates (match, `git commit` guard,
+ * blocking), so generated settings round-trip. Returns null for events we don't support (e.g. Notification).
  */
 function reverseMapHookEvent(
   claudeEvent: string,
   matcher: string,
-): { event: ImportedHook['event']; description: string } | null {
-  if (claudeEvent === 'PostToolUse') {
-    if (matcher === 'Edit|Write|MultiEdit' || matcher.includes('Edit')) {
-      return { event: 'post-edit', description: 'Run after file edits' };
-    }
-    if (matcher === 'Write') {
-      return { event: 'post-create', description: 'Run after file creation' };
-    }
-  }
-  if (claudeEvent === 'Notification') {
-    if (matcher === 'Stop' || matcher === '') {
-      return { event: 'pre-commit', description: 'Run on notification/completion' };
+  command: string,
+): Pick<ImportedHook, 'event' | 'match' | 'tool' | 'run' | 'description' | 'blocking'> | null {
+  const { run, match, blocking, preCommit } = unwrapHookCommand(command);
+  const flags = { ...(match !== undefined ? { match } : {}), ...(blocking ? { blocking } : {}) };
+
+  switch (claudeEvent) {
+    case 'SessionStart':
+      return { event: 'session-start', run, description: 'Run at session start', ...flags };
+    case 'UserPromptSubmit':
+      return {
+        event: 'user-prompt-submit',
+        run,
+        description: 'Run when a prompt is submitted',
+        ...flags,
+      };
+    case 'PreToolUse': {
+      if (preCommit && matcher === 'Bash') {
+        return { event: 'pre-commit', run, description: 'Run before git commit', ...flags };
+      }
+      const tool = reverseMapTools(matcher);
+      if (tool === null) return null;
+      return {
+        event: 'pre-tool-use',
+        ...(tool ? { tool } : {}),
+        run,
+        description: 'Run before tool use',
+        ...flags,
+      };
     }
+    case 'PostToolUse':
+      if (matcher === 'Edit|Write|MultiEdit' || matcher.includes('Edit')) {
+        return { event: 'post-edit', run, description: 'Run after file edits', ...flags };
+      }
+      if (matcher === 'Write') {
+        return { event: 'post-create', run, description: 'Run after file creation', ...flags };
+      }
+      return null;
+    case 'Stop':
+      return { event: 'stop', run, description: 'Run when the agent stops', ...flags };
+    case 'SubagentStop':
+      return { event: 'subagent-stop', run, description: 'Run when a subagent stops', ...flags };
+    default:
+      return null;
   }
-  return null;
 }
 
 /**
@@ -334,6 +388,37 @@ async function importSkillsDir(skillsDir: string): Promise<ImportedSkill[]> {
   return skills;
 }
 
+/** One matcher group under a Claude `hooks.<Event>` key */
+interface ClaudeHookEntry {
+  matcher?: string;
+  hooks?: Array<{ command?: string; timeout?: number }>;
+}
+
+/** Convert one Claude matcher group into agentrc hooks, warning when its event has no equivalent. */
+function importHookEntry(
+  eventName: string,
+  entry: ClaudeHookEntry,
+  warnings: string[],
+): ImportedHook[] {
+  const matcher = entry.matcher ?? '';
+  const hooks: ImportedHook[] = [];
+
+  for (const hookCmd of entry.hooks ?? []) {
+    if (!hookCmd.command) continue;
+
+    const mapped = reverseMapHookEvent(eventName, matcher, hookCmd.command);
+    if (!mapped) {
+      warnings.push(`Unsupported hook event: ${eventName} (matcher: "${matcher}")`);
+      return [];
+    }
+    hooks.push(
+      typeof hookCmd.timeout === 'number' ? { ...mapped, timeout: hookCmd.timeout } : mapped,
+    );
+  }
+
+  return hooks;
+}
+
 /** Import hooks from .claude/settings.json. */
 async function importSettingsHooks(
   settingsPath: string,
@@ -357,25 +442,7 @@ async function importSettingsHooks(
     if (!Array.isArray(eventEntries)) continue;
 
     for (const entry of eventEntries) {
-      const entryObj = entry as { matcher?: string; hooks?: Array<{ command?: string }> };
-      const matcher = entryObj.matcher ?? '';
-
-      const mapped = reverseMapHookEvent(eventName, matcher);
-      if (!mapped) {
-        warnings.push(`Unsupported hook event: ${eventName} (matcher: "${matcher}")`);
-        continue;
-      }
-
-      const hookCommands = entryObj.hooks ?? [];
-      for (const hookCmd of hookCommands) {
-        if (hookCmd.command) {
-          hooks.push({
-            event: mapped.event,
-            run: hookCmd.command,
-            description: mapped.description,
-          });
-        }
-      }
+      hooks.push(...importHookEntry(eventName, entry as ClaudeHookEntry, warnings));
     }
   }
 
@@ -410,27 +477,12 @@ async function importPluginHooks(
     if (!Array.isArray(eventEntries)) continue;
 
     for (const entry of eventEntries) {
-      const entryObj = entry as { matcher?: string; hooks?: Array<{ command?: string }> };
-      const matcher = entryObj.matcher ?? '';
-
-      const mapped = reverseMapHookEvent(eventName, matcher);
-      if (!mapped) {
-        warnings.push(`Unsupported hook event: ${eventName} (matcher: "${matcher}")`);
-        continue;
-      }
-
-      const hookCommands = entryObj.hooks ?? [];
-      for (const hookCmd of hookCommands) {
-        if (!hookCmd.command) continue;
-
-        hooks.push({
-          event: mapped.event,
-          run: hookCmd.command,
-          description: mapped.description,
-        });
+      const imported = importHookEntry(eventName, entry as ClaudeHookEntry, warnings);
+      hooks.push(...imported);
 
+      for (const hook of imported) {
         // Extract script references and import them
-        const scriptMatches = hookCmd.command.match(/[\w-]+\.sh/g);
+        const scriptMatches = hook.run.match(/[\w-]+\.sh/g);
         if (scriptMatches) {
           for (const scriptName of scriptMatches) {
             if (importedScripts.has(scriptName)) continue;
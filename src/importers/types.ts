@@ -25,8 +25,11 @@ export interface ImportedSkill {
 export interface ImportedHook {
   event: Hook['event'];
   match?: string;
+  tool?: Hook['tool'];
   run: string;
   description: string;
+  timeout?: number;
+  blocking?: boolean;
 }
 
 export interface ImportedScript {
@@ -0,0 +1,105 @@
+import { extname } from 'node:path';
+import type { OutputFile } from '../adapters/adapter.ts';
+import type { CollisionStrategy } from '../core/config.ts';
+import type { TargetedOutputFile } from './writer.ts';
+
+/** Targets that write different content to the same path */
+export interface Collision {
+  path: string;
+  targets: string[];
+  /** Whether the `merge` strategy can combine the versions (markdown written the same way) */
+  mergeable: boolean;
+}
+
+export interface CombinedOutput {
+  files: TargetedOutputFile[];
+  collisions: Collision[];
+}
+
+/**
+ * Gather each target's files into one list. Identical copies of a path are written once;
+ * different ones are collisions, which `merge` resolves for markdown and otherwise stay as
+ * they came (the first target's version), for the caller to report or fail on.
+ */
+export function combineOutputs(
+  outputs: Array<{ target: string; files: OutputFile[] }>,
+  strategy: CollisionStrategy,
+): CombinedOutput {
+  // Versions of each path, with the targets that wrote each version
+  const versions = new Map<string, TargetedOutputFile[]>();
+  for (const { target, files } of outputs) {
+    for (const file of files) {
+      const existing = versions.get(file.path) ?? [];
+      const same = existing.find((version) => version.content === file.content);
+      if (same) {
+        same.targets?.push(target);
+      } else {
+        existing.push({ ...file, targets: [target] });
+        versions.set(file.path, existing);
+      }
+    }
+  }
+
+  const files: TargetedOutputFile[] = [];
+  const collisions: Collision[] = [];
+  for (const [path, fileVersions] of versions) {
+    if (fileVersions.length === 1) {
+      files.push(fileVersions[0] as TargetedOutputFile);
+      continue;
+    }
+
+    const collision: Collision = {
+      path,
+      targets: fileVersions.flatMap((version) => version.targets ?? []),
+      mergeable: extname(path).toLowerCase() === '.md' && sameWriteFlags(fileVersions),
+    };
+    collisions.push(collision);
+    files.push(
+      strategy === 'merge' && collision.mergeable
+        ? mergeVersions(path, fileVersions)
+        : (fileVersions[0] as TargetedOutputFile),
+    );
+  }
+
+  return { files, collisions };
+}
+
+// Flags that change how the writer treats a file; a merge keeps them, so versions must agree
+const WRITE_FLAGS = ['executable', 'ignoreFile', 'yamlBlock', 'keepExisting'] as const;
+
+function sameWriteFlags(versions: TargetedOutputFile[]): boolean {
+  const [first, ...rest] = versions;
+  return rest.every((version) =>
+    WRITE_FLAGS.every((flag) => Boolean(version[flag]) === Boolean(first?.[flag])),
+  );
+}
+
+/** One section per version, headed by a marker naming the targets it came from */
+function mergeVersions(path: string, versions: TargetedOutputFile[]): TargetedOutputFile {
+  const sections = versions.map(
+    (version) =>
+      `<!-- agentrc target: ${(version.targets ?? []).join(', ')} -->\n\n${version.content.trim()}`,
+  );
+  const fallback = versions.flatMap((version) => version.fallback ?? []);
+  return {
+    ...(versions[0] as TargetedOutputFile),
+    ...(fallback.length > 0 ? { fallback } : {}),
+    path,
+    content: `${sections.join('\n\n')}\n`,
+    targets: versions.flatMap((version) => version.targets ?? []),
+    sources: [...new Set(versions.flatMap((version) => version.sources ?? []))],
+  };
+}
+
+/** Describe a collision for build errors and reports */
+export function describeCollision(collision: Collision): string {
+  return `${collision.path} is written by ${collision.targets.join(', ')} with different content`;
+}
+
+/** Collisions the strategy leaves unresolved */
+export function unresolvedCollisions(
+  collisions: Collision[],
+  strategy: CollisionStrategy,
+): Collision[] {
+  return collisions.filter((collision) => strategy === 'error' || !collision.mergeable);
+}
@@ -0,0 +1,127 @@
+import { chmod, mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { isMap, parseDocument, Scalar } from 'yaml';
+import { isDirectory, pathExists } from '../utils.ts';
+import {
+  type BlockMarkers,
+  removeManagedBlock,
+  renderManagedBlock,
+  replaceManagedBlock,
+} from './managed-block.ts';
+
+/** Where agentrc's pre-commit section lives: a git hook script, or a hook manager's config */
+export interface GitHookTarget {
+  manager: 'git' | 'husky' | 'lefthook';
+  /** Path relative to the project root */
+  path: string;
+}
+
+const MARKERS: BlockMarkers = {
+  start: '# >>> agentrc pre-commit (do not edit) >>>',
+  end: '# <<< agentrc pre-commit <<<',
+};
+
+const LEFTHOOK_FILES = ['lefthook.yml', 'lefthook.yaml', '.lefthook.yml', '.lefthook.yaml'];
+
+/** Key path of agentrc's command in lefthook config */
+const LEFTHOOK_COMMAND = ['pre-commit', 'commands', 'agentrc'];
+
+/**
+ * Pick where the pre-commit section goes: lefthook config if present, then husky's
+ * `.husky/pre-commit`, then `.git/hooks/pre-commit`. Null when none of them exist.
+ */
+export async function detectGitHookTarget(rootDir: string): Promise<GitHookTarget | null> {
+  for (const file of LEFTHOOK_FILES) {
+    if (await pathExists(join(rootDir, file))) {
+      return { manager: 'lefthook', path: file };
+    }
+  }
+  if (await isDirectory(join(rootDir, '.husky'))) {
+    return { manager: 'husky', path: '.husky/pre-commit' };
+  }
+  if (await isDirectory(join(rootDir, '.git'))) {
+    return { manager: 'git', path: '.git/hooks/pre-commit' };
+  }
+  return null;
+}
+
+/** Write (or rewrite) agentrc's pre-commit section with the given shell lines. */
+export async function installGitHook(
+  rootDir: string,
+  target: GitHookTarget,
+  lines: string[],
+): Promise<void> {
+  const absPath = join(rootDir, target.path);
+  const existing = await readOptional(absPath);
+
+  if (target.manager === 'lefthook') {
+    const doc = parseDocument(existing ?? '');
+    const run = new Scalar(`${lines.join('\n')}\n`);
+    run.type = Scalar.BLOCK_LITERAL;
+    doc.setIn(LEFTHOOK_COMMAND, doc.createNode({ run }));
+    await writeFile(absPath, doc.toString(), 'utf-8');
+    return;
+  }
+
+  const block = renderManagedBlock(MARKERS, lines);
+  let content: string;
+  if (existing === null) {
+    content = `#!/bin/sh\n\n${block}\n`;
+  } else {
+    // A new block goes right after the shebang, ahead of anything that might exit early
+    const replaced = replaceManagedBlock(existing, MARKERS, block);
+    const newline = existing.indexOf('\n');
+    content =
+      replaced ??
+      (existing.startsWith('#!') && newline !== -1
+        ? `${existing.slice(0, newline + 1)}\n${block}\n${existing.slice(newline + 1)}`
+        : `${block}\n\n${existing}`);
+  }
+
+  await mkdir(dirname(absPath), { recursive: true });
+  await writeFile(absPath, content, 'utf-8');
+  await chmod(absPath, 0o755);
+}
+
+/**
+ * Remove agentrc's pre-commit section from the file at `path`.
+ * A hook script left with nothing but a shebang is deleted. Returns whether anything was removed.
+ */
+export async function removeGitHook(rootDir: string, path: string): Promise<boolean> {
+  const absPath = join(rootDir, path);
+  const existing = await readOptional(absPath);
+  if (existing === null) return false;
+
+  if (LEFTHOOK_FILES.includes(basename(path))) {
+    const doc = parseDocument(existing);
+    if (!doc.hasIn(LEFTHOOK_COMMAND)) return false;
+    doc.deleteIn(LEFTHOOK_COMMAND);
+    // Drop the parent maps too if agentrc's command was all they held
+    for (const depth of [2, 1]) {
+      const parent = doc.getIn(LEFTHOOK_COMMAND.slice(0, depth), true);
+      if (isMap(parent) && parent.items.length === 0) {
+        doc.deleteIn(LEFTHOOK_COMMAND.slice(0, depth));
+      }
+    }
+    await writeFile(absPath, doc.toString(), 'utf-8');
+    return true;
+  }
+
+  const remaining = removeManagedBlock(existing, MARKERS);
+  if (remaining === null) return false;
+
+  if (/^(#![^\n]*)?\s*$/.test(remaining)) {
+    await unlink(absPath);
+  } else {
+    await writeFile(absPath, remaining, 'utf-8');
+  }
+  return true;
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -1,8 +1,35 @@
 import { readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
+import {
+  type BlockMarkers,
+  removeManagedBlock,
+  removeManagedBlockFromFile,
+  renderManagedBlock,
+  replaceManagedBlock,
+} from './managed-block.ts';
 
-const BLOCK_START = '# >>> agentrc managed (do not edit) >>>';
-const BLOCK_END = '# <<< agentrc managed <<<';
+// Ignore files share gitignore syntax, so .cursorignore and friends get the same block
+const MARKERS: BlockMarkers = {
+  start: '# >>> agentrc managed (do not edit) >>>',
+  end: '# <<< agentrc managed <<<',
+};
+
+/** Put the managed block with these lines into ignore-file content, replacing an earlier one */
+export function withIgnoreBlock(content: string, lines: string[]): string {
+  const block = renderManagedBlock(MARKERS, lines);
+
+  const replaced = replaceManagedBlock(content, MARKERS, block);
+  if (replaced !== null) return replaced;
+
+  // Append the block at the end
+  const separator = content.length > 0 && !content.endsWith('\n') ? '\n\n' : '\n';
+  return content.length > 0 ? `${content}${separator}${block}\n` : `${block}\n`;
+}
+
+/** Ignore-file content without agentrc's managed block, or null when it has none */
+export function withoutIgnoreBlock(content: string): string | null {
+  return removeManagedBlock(content, MARKERS);
+}
 
 // Add or update the agentrc managed block in .gitignore
 export async function updateGitignore(rootDir: string, entries: string[]): Promise<void> {
@@ -17,54 +44,22 @@ export async function updateGitignore(rootDir: string, entries: string[]): Promi
     // .gitignore doesn't exist yet, we'll create it
   }
 
-  const block = buildBlock(entries);
-
-  if (content.includes(BLOCK_START) && content.includes(BLOCK_END)) {
-    // Replace the existing managed block
-    const startIdx = content.indexOf(BLOCK_START);
-    const endIdx = content.indexOf(BLOCK_END) + BLOCK_END.length;
-    const before = content.slice(0, startIdx);
-    const after = content.slice(endIdx);
-    content = `${before}${block}${after}`;
-  } else {
-    // Append the block at the end
-    const separator = content.length > 0 && !content.endsWith('\n') ? '\n\n' : '\n';
-    content = content.length > 0 ? `${content}${separator}${block}\n` : `${block}\n`;
-  }
+  await writeFile(gitignorePath, withIgnoreBlock(content, [...entries].sort()), 'utf-8');
+}
 
-  await writeFile(gitignorePath, content, 'utf-8');
+/**
+ * Remove the agentrc managed block from an ignore file.
+ * With `deleteEmpty`, a file left with nothing else is deleted. Returns whether there was a block.
+ */
+export async function removeIgnoreBlock(
+  rootDir: string,
+  path: string,
+  options: { deleteEmpty?: boolean } = {},
+): Promise<boolean> {
+  return removeManagedBlockFromFile(join(rootDir, path), MARKERS, options);
 }
 
 // Remove the agentrc managed block from .gitignore
 export async function removeGitignoreBlock(rootDir: string): Promise<void> {
-  const gitignorePath = join(rootDir, '.gitignore');
-  let content: string;
-
-  try {
-    content = await readFile(gitignorePath, 'utf-8');
-  } catch {
-    // No .gitignore, nothing to remove
-    return;
-  }
-
-  if (!content.includes(BLOCK_START) || !content.includes(BLOCK_END)) {
-    return;
-  }
-
-  const startIdx = content.indexOf(BLOCK_START);
-  const endIdx = content.indexOf(BLOCK_END) + BLOCK_END.length;
-  const before = content.slice(0, startIdx);
-  const after = content.slice(endIdx);
-
-  // Clean up extra blank lines at the junction
-  const cleaned = `${before.trimEnd()}${after}`.trimEnd();
-  const result = cleaned.length > 0 ? `${cleaned}\n` : '';
-
-  await writeFile(gitignorePath, result, 'utf-8');
-}
-
-function buildBlock(entries: string[]): string {
-  const sorted = [...entries].sort();
-  const lines = [BLOCK_START, ...sorted, BLOCK_END];
-  return lines.join('\n');
+  await removeIgnoreBlock(rootDir, '.gitignore');
 }
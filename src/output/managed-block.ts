@@ -0,0 +1,82 @@
+// Managed blocks: a section of a user-owned file that agentrc rewrites and removes,
+// delimited by start/end marker lines and leaving the rest of the file alone.
+
+import { readFile, unlink, writeFile } from 'node:fs/promises';
+
+export interface BlockMarkers {
+  start: string;
+  end: string;
+}
+
+/** Wrap block lines in the start/end markers. */
+export function renderManagedBlock(markers: BlockMarkers, lines: string[]): string {
+  return [markers.start, ...lines, markers.end].join('\n');
+}
+
+/** Whether the content already has a managed block. */
+export function hasManagedBlock(content: string, markers: BlockMarkers): boolean {
+  return content.includes(markers.start) && content.includes(markers.end);
+}
+
+/**
+ * Replace the managed block in `content` with `block`.
+ * Returns null when there is no block to replace (the caller decides where a new one goes).
+ */
+export function replaceManagedBlock(
+  content: string,
+  markers: BlockMarkers,
+  block: string,
+): string | null {
+  if (!hasManagedBlock(content, markers)) return null;
+
+  const startIdx = content.indexOf(markers.start);
+  const endIdx = content.indexOf(markers.end) + markers.end.length;
+  return `${content.slice(0, startIdx)}${block}${content.slice(endIdx)}`;
+}
+
+/**
+ * Remove the managed block from `content`, tidying blank lines at the junction.
+ * Returns null when there is no block.
+ */
+export function removeManagedBlock(content: string, markers: BlockMarkers): string | null {
+  if (!hasManagedBlock(content, markers)) return null;
+
+  const startIdx = content.indexOf(markers.start);
+  const endIdx = content.indexOf(markers.end) + markers.end.length;
+  const before = content.slice(0, startIdx);
+  const after = content.slice(endIdx);
+
+  const cleaned = (
+    before.trim().length > 0 ? `${before.trimEnd()}${after}` : after.trimStart()
+  ).trimEnd();
+  return cleaned.length > 0 ? `${cleaned}\n` : '';
+}
+
+/**
+ * Remove the managed block from the file at `absPath`.
+ * With `deleteEmpty`, a file left with nothing else is deleted. Returns whether there was a block.
+ */
+export async function removeManagedBlockFromFile(
+  absPath: string,
+  markers: BlockMarkers,
+  options: { deleteEmpty?: boolean } = {},
+): Promise<boolean> {
+  let content: string;
+
+  try {
+    content = await readFile(absPath, 'utf-8');
+  } catch {
+    // No file, nothing to remove
+    return false;
+  }
+
+  const result = removeManagedBlock(content, markers);
+  if (result === null) return false;
+
+  if (result === '' && options.deleteEmpty) {
+    await unlink(absPath);
+  } else {
+    await writeFile(absPath, result, 'utf-8');
+  }
+  return true;
+}
@@ -1,47 +1,94 @@
 import { createHash } from 'node:crypto';
-import { cp, mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, extname, join } from 'node:path';
+import { chmod, cp, mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, relative, sep } from 'node:path';
+import { parse as parseYaml } from 'yaml';
 import type { OutputFile } from '../adapters/adapter.ts';
 import { pathExists } from '../utils.ts';
 import { VERSION } from '../version.ts';
+import { removeIgnoreBlock, withIgnoreBlock, withoutIgnoreBlock } from './gitignore.ts';
+import {
+  type BlockMarkers,
+  hasManagedBlock,
+  removeManagedBlockFromFile,
+  renderManagedBlock,
+  replaceManagedBlock,
+} from './managed-block.ts';
 
 const MANIFEST_PATH = '.agentrc/.manifest.json';
 const BACKUP_DIR = '.agentrc/.backup';
 
 const MD_HEADER = `<!-- Generated by agentrc v${VERSION} — edit .agentrc/ instead, changes here will be overwritten -->`;
 const YAML_HEADER = `# Generated by agentrc v${VERSION} — edit .agentrc/ instead, changes here will be overwritten`;
+const JS_HEADER = `// Generated by agentrc v${VERSION} — edit .agentrc/ instead, changes here will be overwritten`;
 const JSON_GENERATED_KEY = `agentrc@${VERSION}`;
 
+// Where agentrc's part of a hand-written markdown file goes
+const MD_BLOCK_MARKERS: BlockMarkers = {
+  start: '<!-- agentrc:start -->',
+  end: '<!-- agentrc:end -->',
+};
+
 export interface WriteOptions {
   rootDir: string;
   dryRun?: boolean;
+  /** File holding agentrc's git pre-commit section, recorded in the manifest */
+  gitHook?: string;
+  /** Put markdown into hand-written files as a managed block instead of replacing them */
+  managedBlocks?: boolean;
+  /** Delete files the last build generated and this one doesn't, unless they were edited since */
+  prune?: boolean;
+  /**
+   * Targets this build covers (default: all). Manifest entries of other targets are kept,
+   * so a partial build doesn't forget their files.
+   */
+  targets?: string[];
+}
+
+/** An output file with the targets that produced it, for the manifest */
+export interface TargetedOutputFile extends OutputFile {
+  targets?: string[];
 }
 
 export interface WriteResult {
   written: string[];
   backed_up: string[];
+  /** Stale files deleted by `prune` */
+  pruned: string[];
   warnings: string[];
 }
 
 export interface ManifestEntry {
   path: string;
   hash: string;
+  /** Targets that produce the file (unset in manifests from older versions) */
+  targets?: string[];
+  /** .agentrc/ files it was generated from, relative to the project root */
+  sources?: string[];
+  /** Only agentrc's managed block is generated (ignore files, YAML config, hand-written markdown): clean removes the block */
+  block?: boolean;
 }
 
 export interface Manifest {
   version: string;
   generatedAt: string;
   files: ManifestEntry[];
+  /** File holding agentrc's git pre-commit section (removed by clean, not deleted) */
+  gitHook?: string;
 }
 
 export function computeHash(content: string): string {
   return createHash('sha256').update(content).digest('hex');
 }
 
-// Check if a file's content contains an agentrc-generated header
-export function hasGeneratedHeader(content: string): boolean {
+/**
+ * Check if a file's content contains an agentrc-generated header.
+ * Files that can't carry one are recognized by `manifestHash`, the hash recorded when agentrc wrote them.
+ */
+export function hasGeneratedHeader(content: string, manifestHash?: string): boolean {
+  if (manifestHash !== undefined && computeHash(content) === manifestHash) return true;
   if (content.includes(MD_HEADER)) return true;
   if (content.includes(YAML_HEADER)) return true;
+  if (content.includes(JS_HEADER)) return true;
   // For JSON, check for the __generated_by key
   if (content.includes('"__generated_by"')) {
     try {
@@ -58,17 +105,35 @@ export function hasGeneratedHeader(content: string): boolean {
 
 // Add a generated header to file content based on the file extension
 export function addGeneratedHeader(content: string, filePath: string): string {
+  // Scripts keep their shebang on the first line (Node scripts need a JS comment)
+  if (content.startsWith('#!')) {
+    const newline = content.indexOf('\n');
+    if (newline !== -1) {
+      const shebang = content.slice(0, newline + 1);
+      const header = shebang.includes('node') ? JS_HEADER : YAML_HEADER;
+      return `${shebang}${header}\n${content.slice(newline + 1)}`;
+    }
+  }
+
   const ext = extname(filePath).toLowerCase();
 
+  // Frontmatter must stay on the first line for platforms to read it, so the header goes inside as a comment
+  if ((ext === '.md' || ext === '.mdc') && content.startsWith('---\n')) {
+    return `---\n${YAML_HEADER}\n${content.slice(4)}`;
+  }
+
   switch (ext) {
-    case '.md': {
+    case '.md':
+    case '.mdc': {
       return `${MD_HEADER}\n${content}`;
     }
     case '.json': {
       return addJsonHeader(content);
     }
     case '.yml':
-    case '.yaml': {
+    case '.yaml':
+    case '.toml':
+    case '.sh': {
       return `${YAML_HEADER}\n${content}`;
     }
     default: {
@@ -161,6 +226,7 @@ async function writeJsonFile(
   content: string,
   rootDir: string,
   dryRun: boolean,
+  previousHash: string | undefined,
 ): Promise<{ finalContent: string; backedUp: string | null; warning: string | null }> {
   const absPath = join(rootDir, filePath);
   const existingContent = await readFileContent(absPath);
@@ -172,7 +238,7 @@ async function writeJsonFile(
   }
 
   // Existing file with agentrc header: overwrite entirely
-  if (hasGeneratedHeader(existingContent)) {
+  if (hasGeneratedHeader(existingContent, previousHash)) {
     const finalContent = addJsonHeader(content);
     return { finalContent, backedUp: null, warning: null };
   }
@@ -209,6 +275,7 @@ async function writeStandardFile(
   content: string,
   rootDir: string,
   dryRun: boolean,
+  previousHash: string | undefined,
 ): Promise<{ finalContent: string; backedUp: string | null; warning: string | null }> {
   const absPath = join(rootDir, filePath);
   const existingContent = await readFileContent(absPath);
@@ -216,45 +283,151 @@ async function writeStandardFile(
 
   // If file exists without our header, back it up
   let backedUp: string | null = null;
-  if (existingContent !== null && !hasGeneratedHeader(existingContent)) {
+  if (existingContent !== null && !hasGeneratedHeader(existingContent, previousHash)) {
     backedUp = await backupFile(filePath, rootDir, dryRun);
   }
 
   const finalContent = addGeneratedHeader(content, filePath);
 
   // Check if a previously generated file was manually edited
-  if (existingContent !== null && hasGeneratedHeader(existingContent)) {
-    const oldManifest = await readManifest(rootDir);
-    if (oldManifest) {
-      const entry = oldManifest.files.find((f) => f.path === filePath);
-      if (entry && computeHash(existingContent) !== entry.hash) {
-        warning = `${filePath} was manually edited since last generation`;
-      }
-    }
+  if (
+    existingContent !== null &&
+    previousHash !== undefined &&
+    hasGeneratedHeader(existingContent) &&
+    computeHash(existingContent) !== previousHash
+  ) {
+    warning = `${filePath} was manually edited since last generation`;
   }
 
   return { finalContent, backedUp, warning };
 }
 
+// Handle writing an ignore file: agentrc's patterns go in a managed block, the rest is kept
+async function writeIgnoreFile(
+  filePath: string,
+  content: string,
+  rootDir: string,
+): Promise<{ finalContent: string; backedUp: string | null; warning: string | null }> {
+  const existingContent = (await readFileContent(join(rootDir, filePath))) ?? '';
+  const finalContent = withIgnoreBlock(existingContent, content.trimEnd().split('\n'));
+  return { finalContent, backedUp: null, warning: null };
+}
+
+// Top-level keys of a YAML mapping (none when it isn't one or doesn't parse)
+function yamlKeys(content: string): string[] {
+  try {
+    const parsed: unknown = parseYaml(content);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? Object.keys(parsed)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Put markdown into a hand-written file between the agentrc:start/end markers, appending them the first time
+function withMarkdownBlock(existingContent: string, content: string): string {
+  const block = renderManagedBlock(MD_BLOCK_MARKERS, ['', content.trim(), '']);
+
+  const replaced = replaceManagedBlock(existingContent, MD_BLOCK_MARKERS, block);
+  if (replaced !== null) return replaced;
+
+  return existingContent.trim().length > 0
+    ? `${existingContent.trimEnd()}\n\n${block}\n`
+    : `${block}\n`;
+}
+
 // Write adapter output files to disk, handling headers, merging, backups, and manifest
 export async function writeOutputFiles(
-  files: OutputFile[],
+  files: TargetedOutputFile[],
   options: WriteOptions,
 ): Promise<WriteResult> {
-  const { rootDir, dryRun = false } = options;
+  const {
+    rootDir,
+    dryRun = false,
+    gitHook,
+    managedBlocks = false,
+    prune = false,
+    targets,
+  } = options;
   const written: string[] = [];
   const backed_up: string[] = [];
+  const pruned: string[] = [];
   const warnings: string[] = [];
   const manifestEntries: ManifestEntry[] = [];
 
-  for (const file of files) {
+  // Entries from the last build: hashes for files that can't carry a header, and other targets' files
+  const oldManifest = await readManifest(rootDir);
+  const previousEntries = new Map(oldManifest?.files.map((entry) => [entry.path, entry]));
+  const isBuilt = (target: string) => targets === undefined || targets.includes(target);
+
+  // Fallback files join the queue when the file they stand in for is left alone
+  const pending = [...files];
+  for (const file of pending) {
     const ext = extname(file.path).toLowerCase();
+    const previousHash = previousEntries.get(file.path)?.hash;
+
+    const existingContent = await readFileContent(join(rootDir, file.path));
+    const handWritten =
+      existingContent !== null && !hasGeneratedHeader(existingContent, previousHash);
+
+    // Markdown goes in a managed block where the user put the markers, or in any hand-written
+    // file with managedBlocks (frontmatter has to stay at the top, so those files are replaced)
+    const inBlock =
+      ext === '.md' &&
+      !file.content.startsWith('---\n') &&
+      existingContent !== null &&
+      (hasManagedBlock(existingContent, MD_BLOCK_MARKERS) || (managedBlocks && handWritten));
+
+    if (file.keepExisting && handWritten && !inBlock) {
+      warnings.push(
+        `${file.path} was not generated by agentrc and was left unchanged (set managedBlocks: true to add agentrc's part to it)`,
+      );
+      pending.push(
+        ...(file.fallback ?? []).map((fallback) => ({ ...fallback, targets: file.targets })),
+      );
+      continue;
+    }
+
+    // YAML config keys go in a managed block next to the user's own keys. A key can't appear
+    // twice, so a file that already sets one is left alone. A file an older build wrote whole
+    // is replaced.
+    let yamlBase = '';
+    if (file.yamlBlock && existingContent !== null) {
+      const userPart = withoutIgnoreBlock(existingContent);
+      if (userPart !== null || handWritten) {
+        yamlBase = existingContent;
+        const userKeys = yamlKeys(userPart ?? existingContent);
+        const clashes = yamlKeys(file.content).filter((key) => userKeys.includes(key));
+        if (clashes.length > 0) {
+          warnings.push(
+            `${file.path} already sets ${clashes.join(', ')} and was left unchanged (move it into .agentrc/ or remove it to let agentrc write it)`,
+          );
+          continue;
+        }
+      }
+    }
+
     let result: { finalContent: string; backedUp: string | null; warning: string | null };
 
-    if (ext === '.json') {
-      result = await writeJsonFile(file.path, file.content, rootDir, dryRun);
+    if (file.yamlBlock) {
+      result = {
+        finalContent: withIgnoreBlock(yamlBase, file.content.trimEnd().split('\n')),
+        backedUp: null,
+        warning: null,
+      };
+    } else if (file.ignoreFile) {
+      result = await writeIgnoreFile(file.path, file.content, rootDir);
+    } else if (inBlock) {
+      result = {
+        finalContent: withMarkdownBlock(existingContent ?? '', file.content),
+        backedUp: null,
+        warning: null,
+      };
+    } else if (ext === '.json') {
+      result = await writeJsonFile(file.path, file.content, rootDir, dryRun, previousHash);
     } else {
-      result = await writeStandardFile(file.path, file.content, rootDir, dryRun);
+      result = await writeStandardFile(file.path, file.content, rootDir, dryRun, previousHash);
     }
 
     if (result.backedUp) {
@@ -268,22 +441,49 @@ export async function writeOutputFiles(
       const absPath = join(rootDir, file.path);
       await mkdir(dirname(absPath), { recursive: true });
       await writeFile(absPath, result.finalContent, 'utf-8');
+      if (file.executable) {
+        await chmod(absPath, 0o755);
+      }
     }
 
     written.push(file.path);
-    manifestEntries.push({
-      path: file.path,
-      hash: computeHash(result.finalContent),
-    });
+    const entry: ManifestEntry = { path: file.path, hash: computeHash(result.finalContent) };
+    // A file shared with a target outside this build still belongs to that target too
+    const otherTargets = (previousEntries.get(file.path)?.targets ?? []).filter(
+      (target) => !isBuilt(target),
+    );
+    const entryTargets = [...new Set([...(file.targets ?? []), ...otherTargets])];
+    if (entryTargets.length > 0) {
+      entry.targets = entryTargets;
+    }
+    if (file.sources && file.sources.length > 0) {
+      entry.sources = file.sources.map((source) => relative(rootDir, source).split(sep).join('/'));
+    }
+    if (file.ignoreFile || file.yamlBlock || inBlock) {
+      entry.block = true;
+    }
+    manifestEntries.push(entry);
   }
 
-  // Detect stale files from previous manifest that are no longer generated
-  const oldManifest = await readManifest(rootDir);
   if (oldManifest) {
-    const currentPaths = new Set(files.map((f) => f.path));
+    const currentPaths = new Set(pending.map((f) => f.path));
     for (const entry of oldManifest.files) {
-      if (!currentPaths.has(entry.path)) {
+      if (currentPaths.has(entry.path)) continue;
+
+      // Targets this build left out still produce the file: it stays theirs, untouched.
+      // Entries from builds too old to say which targets made them are kept the same way.
+      const otherTargets = entry.targets?.filter((target) => !isBuilt(target)) ?? [];
+      if (otherTargets.length > 0) {
+        manifestEntries.push({ ...entry, targets: otherTargets });
+      } else if (targets !== undefined && entry.targets === undefined) {
+        manifestEntries.push(entry);
+      } else if (!prune) {
+        // Detect stale files from previous manifest that are no longer generated
         warnings.push(`Stale generated file detected: ${entry.path} (no longer in output)`);
+      } else if (await wasEditedSince(rootDir, entry)) {
+        warnings.push(`Stale generated file kept: ${entry.path} (edited since it was generated)`);
+      } else if (dryRun || (await removeGeneratedFile(rootDir, entry))) {
+        pruned.push(entry.path);
       }
     }
   }
@@ -295,12 +495,19 @@ export async function writeOutputFiles(
       generatedAt: new Date().toISOString(),
       files: manifestEntries,
     };
-    const manifestAbsPath = join(rootDir, MANIFEST_PATH);
-    await mkdir(dirname(manifestAbsPath), { recursive: true });
-    await writeFile(manifestAbsPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+    if (gitHook !== undefined) {
+      manifest.gitHook = gitHook;
+    }
+    await writeManifest(rootDir, manifest);
   }
 
-  return { written, backed_up, warnings };
+  return { written, backed_up, pruned, warnings };
+}
+
+async function writeManifest(rootDir: string, manifest: Manifest): Promise<void> {
+  const manifestAbsPath = join(rootDir, MANIFEST_PATH);
+  await mkdir(dirname(manifestAbsPath), { recursive: true });
+  await writeFile(manifestAbsPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
 }
 
 // Read the existing manifest from disk
@@ -315,24 +522,70 @@ export async function readManifest(rootDir: string): Promise<Manifest | null> {
   }
 }
 
-// Remove all generated files tracked by the manifest
-export async function cleanGeneratedFiles(rootDir: string): Promise<string[]> {
+/**
+ * Delete a manifest-tracked file, or just its managed block. Returns false when there was
+ * nothing to remove.
+ */
+async function removeGeneratedFile(rootDir: string, entry: ManifestEntry): Promise<boolean> {
+  // Ignore files, YAML config, and hand-written markdown hold the user's own content too
+  if (entry.block) {
+    return extname(entry.path).toLowerCase() === '.md'
+      ? removeManagedBlockFromFile(join(rootDir, entry.path), MD_BLOCK_MARKERS, {
+          deleteEmpty: true,
+        })
+      : removeIgnoreBlock(rootDir, entry.path, { deleteEmpty: true });
+  }
+
+  try {
+    await unlink(join(rootDir, entry.path));
+    return true;
+  } catch {
+    // File already gone, that's fine
+    return false;
+  }
+}
+
+/**
+ * Whether a tracked file no longer matches the hash it was written with. Blocks are agentrc's
+ * own and the rest of their file is the user's, so they never count as edited.
+ */
+async function wasEditedSince(rootDir: string, entry: ManifestEntry): Promise<boolean> {
+  if (entry.block) return false;
+  const content = await readFileContent(join(rootDir, entry.path));
+  return content !== null && computeHash(content) !== entry.hash;
+}
+
+/**
+ * Remove the generated files tracked by the manifest. With `targets`, only files no other
+ * target produces are removed, and the manifest keeps the rest.
+ */
+export async function cleanGeneratedFiles(rootDir: string, targets?: string[]): Promise<string[]> {
   const manifest = await readManifest(rootDir);
   if (!manifest) return [];
 
-  const { unlink } = await import('node:fs/promises');
   const removed: string[] = [];
+  const kept: ManifestEntry[] = [];
 
   for (const entry of manifest.files) {
-    const absPath = join(rootDir, entry.path);
-    try {
-      await unlink(absPath);
+    if (targets !== undefined) {
+      // Entries from older manifests don't say which target made them, so only a full clean removes them
+      const remaining = entry.targets?.filter((target) => !targets.includes(target));
+      if (remaining === undefined || remaining.length > 0) {
+        kept.push(remaining === undefined ? entry : { ...entry, targets: remaining });
+        continue;
+      }
+    }
+
+    if (await removeGeneratedFile(rootDir, entry)) {
       removed.push(entry.path);
-    } catch {
-      // File already gone, that's fine
     }
   }
 
+  if (targets !== undefined && (kept.length > 0 || manifest.gitHook !== undefined)) {
+    await writeManifest(rootDir, { ...manifest, files: kept });
+    return removed;
+  }
+
   // Remove the manifest itself
   try {
     await unlink(join(rootDir, MANIFEST_PATH));
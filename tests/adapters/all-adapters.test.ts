@@ -1,7 +1,13 @@
 import { describe, expect, test } from 'bun:test';
 import type { AdapterResult } from '../../src/adapters/adapter.ts';
-import { getAdapter, listAdapters } from '../../src/adapters/registry.ts';
-import { getFullIR } from '../helpers.ts';
+import {
+  generateForTarget,
+  getAdapter,
+  listAdapters,
+  selectForTarget,
+  validateTargetOptions,
+} from '../../src/adapters/registry.ts';
+import { getFullIR, getMonorepoIR } from '../helpers.ts';
 
 describe('All adapters', () => {
   test('every registered adapter generates without errors', async () => {
@@ -40,7 +46,7 @@ describe('All adapters', () => {
     }
   });
 
-  test('only claude adapter includes hooks in output', async () => {
+  test('only platforms with native hooks include hooks in output', async () => {
     const ir = await getFullIR();
     const adapterNames = listAdapters();
 
@@ -51,8 +57,8 @@ describe('All adapters', () => {
       if (ir.hooks.length > 0) {
         const hooksInNative = result.nativeFeatures.some((f) => f.includes('hook'));
 
-        if (name === 'claude') {
-          // Claude should handle hooks natively
+        if (['claude', 'cursor', 'windsurf', 'cline'].includes(name)) {
+          // These platforms run hooks natively
           expect(hooksInNative).toBe(true);
         } else {
           // All other adapters omit hooks entirely
@@ -108,6 +114,141 @@ describe('All adapters', () => {
     }
   });
 
+  test('every adapter writes MCP servers natively or reports them as degraded', async () => {
+    const ir = await getFullIR();
+    expect(ir.mcpServers.length).toBeGreaterThan(0);
+
+    for (const name of listAdapters()) {
+      const result = getAdapter(name).generate(ir);
+      const native = result.nativeFeatures.includes('mcp');
+      const degraded = result.degradedFeatures.some((f) => f.startsWith('mcp '));
+      expect(native !== degraded).toBe(true);
+
+      if (native) {
+        const mcpFile = result.files.find((f) => f.content.includes('server-github'));
+        expect(mcpFile).toBeDefined();
+        expect(mcpFile?.content).toContain('https://docs.example.com/mcp');
+      }
+    }
+  });
+
+  test('generic adapters with a project MCP file use their platform format', async () => {
+    const ir = await getFullIR();
+
+    const roo = getAdapter('roo').generate(ir);
+    const rooMcp = roo.files.find((f) => f.path === '.roo/mcp.json');
+    expect(JSON.parse(rooMcp?.content ?? '{}').mcpServers.docs).toEqual({
+      type: 'streamable-http',
+      url: 'https://docs.example.com/mcp',
+      headers: { Authorization: 'Bearer $DOCS_TOKEN' },
+    });
+
+    const aider = getAdapter('aider').generate(ir);
+    expect(aider.degradedFeatures).toContain(
+      'mcp (omitted: aider has no project-level MCP config)',
+    );
+  });
+
+  test('every adapter writes permissions natively or reports them as degraded', async () => {
+    const ir = await getFullIR();
+    ir.permissions = { allow: [{ tool: 'shell', pattern: 'npm test' }], ask: [], deny: [] };
+
+    for (const name of listAdapters()) {
+      const result = getAdapter(name).generate(ir);
+      const native = result.nativeFeatures.includes('permissions');
+      const degraded = result.degradedFeatures.some((f) => f.startsWith('permissions '));
+      expect(native !== degraded).toBe(true);
+    }
+  });
+
+  test('every adapter writes its ignore file or reports ignore patterns as degraded', async () => {
+    const ir = await getFullIR();
+    ir.ignores = ['.env', 'secrets/'];
+    const ignoreFiles: Record<string, string> = {};
+
+    for (const name of listAdapters()) {
+      const result = getAdapter(name).generate(ir);
+      const native = result.nativeFeatures.includes('ignore');
+      const degraded = result.degradedFeatures.some((f) => f.startsWith('ignore '));
+      expect(native !== degraded).toBe(true);
+
+      const file = result.files.find((f) => f.ignoreFile);
+      if (file) {
+        expect(file.content).toBe('.env\nsecrets/\n');
+        ignoreFiles[name] = file.path;
+      }
+    }
+
+    expect(ignoreFiles).toEqual({
+      cursor: '.cursorignore',
+      windsurf: '.codeiumignore',
+      cline: '.clineignore',
+      gemini: '.geminiignore',
+      aider: '.aiderignore',
+      junie: '.aiignore',
+      roo: '.rooignore',
+    });
+  });
+
+  test('every adapter loads context files natively or links them', async () => {
+    const ir = await getFullIR();
+    ir.contextFiles = ['docs/architecture.md'];
+
+    for (const name of listAdapters()) {
+      const result = getAdapter(name).generate(ir);
+      const native = result.nativeFeatures.includes('context');
+      const linked = result.degradedFeatures.some((f) => f.startsWith('context (linked from '));
+      expect(native !== linked).toBe(true);
+      if (linked) {
+        expect(result.files.some((f) => f.content.includes('architecture.md)'))).toBe(true);
+      }
+    }
+
+    // Links are relative to the file they are in
+    const copilot = getAdapter('copilot').generate(ir);
+    expect(
+      copilot.files.find((f) => f.path === '.github/copilot-instructions.md')?.content,
+    ).toContain('- [docs/architecture.md](../docs/architecture.md)');
+
+    const aider = getAdapter('aider').generate(ir);
+    expect(aider.files.find((f) => f.path === '.aider.conf.yml')?.content).toBe(
+      'read:\n  - "CONVENTIONS.md"\n  - "docs/architecture.md"\n',
+    );
+
+    const gemini = getAdapter('gemini').generate(ir);
+    const settings = JSON.parse(
+      gemini.files.find((f) => f.path === '.gemini/settings.json')?.content ?? '{}',
+    );
+    expect(settings.context).toEqual({ fileName: ['GEMINI.md', 'docs/architecture.md'] });
+  });
+
+  test('Gemini CLI gets permissions in settings.json next to its MCP servers', async () => {
+    const ir = await getFullIR();
+    ir.permissions = {
+      allow: [{ tool: 'shell', pattern: 'npm test' }, { tool: 'read' }],
+      ask: [{ tool: 'edit' }],
+      deny: [
+        { tool: 'write', pattern: '.env' },
+        { tool: 'shell', pattern: 'rm' },
+        { tool: 'mcp', pattern: 'github' },
+      ],
+    };
+    const result = getAdapter('gemini').generate(ir);
+
+    const settings = JSON.parse(
+      result.files.find((f) => f.path === '.gemini/settings.json')?.content ?? '{}',
+    );
+    expect(Object.keys(settings.mcpServers)).toEqual(['github', 'docs']);
+    expect(settings.tools).toEqual({
+      allowed: ['run_shell_command(npm test)', 'read_file'],
+      exclude: ['run_shell_command(rm)'],
+    });
+    expect(settings.mcp).toEqual({ excluded: ['github'] });
+    expect(result.warnings).toEqual([
+      'Permission deny: write(.env) has no Gemini CLI equivalent and was skipped',
+    ]);
+  });
+
   test('every adapter result has valid AdapterResult shape', async () => {
     const ir = await getFullIR();
     const adapterNames = listAdapters();
@@ -152,4 +293,95 @@ describe('All adapters', () => {
     expect(names).toContain('amp');
     expect(names).toContain('roo');
   });
+
+  test('generic adapters accept an outputPath option', async () => {
+    const ir = await getFullIR();
+    const result = getAdapter('aider').generate(ir, { outputPath: 'docs/CONVENTIONS.md' });
+    expect(result.files.map((f) => f.path)).toEqual(['docs/CONVENTIONS.md']);
+  });
+
+  test('nested package files keep the output file name at the package root', async () => {
+    const ir = await getMonorepoIR();
+    const result = getAdapter('generic-markdown').generate(ir, { outputPath: 'docs/AGENTS.md' });
+    const paths = result.files.map((f) => f.path);
+    expect(paths).toContain('docs/AGENTS.md');
+    expect(paths).toContain('packages/api/AGENTS.md');
+    expect(paths).not.toContain('packages/api/docs/AGENTS.md');
+  });
+
+  test('validateTargetOptions rejects options that fail the adapter schema', () => {
+    expect(() => validateTargetOptions('windsurf', { ruleCharLimit: 'big' })).toThrow(
+      'Invalid options for target "windsurf"',
+    );
+    expect(() => validateTargetOptions('copilot', { unknown: true })).toThrow(
+      'Invalid options for target "copilot"',
+    );
+    expect(() => validateTargetOptions('cursor', { anything: 1 })).toThrow(
+      'Target "cursor" does not accept options',
+    );
+    expect(() => validateTargetOptions('windsurf', { totalCharLimit: 20_000 })).not.toThrow();
+  });
+
+  test('generateForTarget applies options from the IR', async () => {
+    const ir = await getFullIR();
+    ir.targetOptions = { 'generic-markdown': { outputPath: 'AI.md' } };
+    const result = generateForTarget('generic-markdown', ir);
+    expect(result.files[0]?.path).toBe('AI.md');
+  });
+
+  test('selectForTarget drops items not meant for the target', async () => {
+    const ir = await getFullIR();
+    const [rule] = ir.rules;
+    const [command] = ir.commands;
+    if (!rule || !command) throw new Error('full fixture should have rules and commands');
+    Object.assign(rule, { name: 'claude-only', targets: ['claude'] });
+    Object.assign(command, { name: 'no-copilot', excludeTargets: ['copilot'] });
+
+    const forClaude = selectForTarget(ir, 'claude');
+    expect(forClaude.ir.rules.some((r) => r.name === 'claude-only')).toBe(true);
+    expect(forClaude.excluded).toEqual([]);
+
+    const forCopilot = selectForTarget(ir, 'copilot');
+    expect(forCopilot.ir.rules.some((r) => r.name === 'claude-only')).toBe(false);
+    expect(forCopilot.ir.commands.some((c) => c.name === 'no-copilot')).toBe(false);
+    expect(forCopilot.excluded).toEqual([
+      { kind: 'rule', name: 'claude-only', reason: 'targets: claude' },
+      { kind: 'command', name: 'no-copilot', reason: 'excludeTargets: copilot' },
+    ]);
+  });
+
+  test('generateForTarget only passes matching items to the adapter', async () => {
+    const ir = await getFullIR();
+    const [skill] = ir.skills;
+    if (!skill) throw new Error('full fixture should have a skill');
+    skill.excludeTargets = ['copilot'];
+
+    const result = generateForTarget('copilot', ir);
+    const mainFile = result.files.find((f) => f.path === '.github/copilot-instructions.md');
+    expect(mainFile?.content).not.toContain(`### ${skill.name}`);
+  });
+
+  test('selectForTarget resolves agentrc:if blocks for the target', async () => {
+    const ir = await getFullIR();
+    const [rule] = ir.rules;
+    if (!rule) throw new Error('full fixture should have rules');
+    rule.content =
+      'Edit files with <!-- agentrc:if target=claude -->the Edit tool<!-- agentrc:else -->apply_patch<!-- agentrc:endif -->.';
+
+    expect(selectForTarget(ir, 'claude').ir.rules[0]?.content).toBe(
+      'Edit files with the Edit tool.',
+    );
+    expect(selectForTarget(ir, 'codex').ir.rules[0]?.content).toBe('Edit files with apply_patch.');
+    // The shared IR is left untouched
+    expect(rule.content).toContain('agentrc:if');
+  });
+
+  test('selectForTarget names the source file of malformed blocks', async () => {
+    const ir = await getFullIR();
+    const [rule] = ir.rules;
+    if (!rule) throw new Error('full fixture should have rules');
+    rule.content = '<!-- agentrc:if target=claude -->\nUnclosed';
+
+    expect(() => selectForTarget(ir, 'claude')).toThrow(rule.sourcePath);
+  });
 });
@@ -66,7 +66,49 @@ describe('Claude adapter', () => {
 
     const hooks = parsed.hooks as Record<string, unknown>;
     expect(hooks).toHaveProperty('PostToolUse');
-    expect(hooks).toHaveProperty('Notification');
+    expect(hooks).toHaveProperty('PreToolUse');
+    expect(hooks).not.toHaveProperty('Notification');
+  });
+
+  test('maps hook events, tools, timeout, and blocking to settings.json', async () => {
+    const ir = await getFullIR();
+    ir.hooks = [
+      { event: 'session-start', run: './setup.sh', description: 'Setup', timeout: 30 },
+      {
+        event: 'pre-tool-use',
+        tool: ['edit', 'write'],
+        run: './guard.sh',
+        description: 'Guard',
+        blocking: true,
+      },
+    ];
+    const result = claudeAdapter.generate(ir);
+
+    const parsed = JSON.parse(
+      result.files.find((f) => f.path === '.claude/settings.json')?.content ?? '{}',
+    ) as { hooks: Record<string, unknown> };
+    expect(parsed.hooks).toEqual({
+      SessionStart: [{ hooks: [{ type: 'command', command: './setup.sh', timeout: 30 }] }],
+      PreToolUse: [
+        {
+          matcher: 'Edit|MultiEdit|Write',
+          hooks: [{ type: 'command', command: '.agentrc/bin/agentrc-hook --block -- ./guard.sh' }],
+        },
+      ],
+    });
+  });
+
+  test('emits the hook runner when a hook reads the payload', async () => {
+    const ir = await getFullIR();
+    const result = claudeAdapter.generate(ir);
+
+    const runner = result.files.find((f) => f.path === '.agentrc/bin/agentrc-hook');
+    expect(runner?.executable).toBe(true);
+    expect(runner?.content).toStartWith('#!/usr/bin/env node\n');
+
+    ir.hooks = [{ event: 'stop', run: 'bun test', description: 'Test' }];
+    const plain = claudeAdapter.generate(ir);
+    expect(plain.files.some((f) => f.path === '.agentrc/bin/agentrc-hook')).toBe(false);
   });
 
   test('generates command files', async () => {
@@ -151,6 +193,96 @@ describe('Claude adapter', () => {
     expect(hasManualDegraded).toBe(true);
   });
 
+  test('writes permissions to settings.json in Claude Code rule syntax', async () => {
+    const ir = await getMinimalIR();
+    ir.permissions = {
+      allow: [{ tool: 'shell', pattern: 'npm test' }, { tool: 'read' }],
+      ask: [{ tool: 'shell', pattern: 'git push' }],
+      deny: [
+        { tool: 'read', pattern: '.env' },
+        { tool: 'mcp', pattern: 'github' },
+        { tool: 'mcp' },
+      ],
+    };
+    const result = claudeAdapter.generate(ir);
+
+    const parsed = JSON.parse(
+      result.files.find((f) => f.path === '.claude/settings.json')?.content ?? '{}',
+    );
+    expect(parsed).toEqual({
+      permissions: {
+        allow: ['Bash(npm test:*)', 'Read'],
+        ask: ['Bash(git push:*)'],
+        deny: ['Read(.env)', 'mcp__github'],
+      },
+    });
+    expect(result.nativeFeatures).toContain('permissions');
+    expect(result.warnings).toEqual([
+      'Permission deny: mcp has no Claude Code equivalent and was skipped',
+    ]);
+    // No hooks, no runner
+    expect(result.files.some((f) => f.path === '.agentrc/bin/agentrc-hook')).toBe(false);
+  });
+
+  test('turns ignore patterns into Read deny rules after the permission rules', async () => {
+    const ir = await getMinimalIR();
+    ir.permissions = { allow: [], ask: [], deny: [{ tool: 'shell', pattern: 'rm' }] };
+    ir.ignores = ['.env', 'secrets/', '!secrets/README.md'];
+    const result = claudeAdapter.generate(ir);
+
+    const parsed = JSON.parse(
+      result.files.find((f) => f.path === '.claude/settings.json')?.content ?? '{}',
+    );
+    expect(parsed.permissions).toEqual({
+      deny: ['Bash(rm:*)', 'Read(.env)', 'Read(secrets/**)'],
+    });
+    expect(result.nativeFeatures).toContain('ignore');
+    expect(result.warnings).toEqual([
+      'Ignore pattern !secrets/README.md has no Claude Code equivalent and was skipped',
+    ]);
+  });
+
+  test('imports context files from .claude/CLAUDE.md', async () => {
+    const ir = await getMinimalIR();
+    ir.contextFiles = ['docs/architecture.md', 'CONTRIBUTING.md'];
+    const result = claudeAdapter.generate(ir);
+
+    const memory = result.files.find((f) => f.path === '.claude/CLAUDE.md');
+    expect(memory?.content).toBe('@../docs/architecture.md\n@../CONTRIBUTING.md\n');
+    expect(result.nativeFeatures).toContain('context');
+  });
+
+  test('writes a root CLAUDE.md with key rules inline and the rest imported', async () => {
+    const ir = await getFullIR();
+    ir.contextFiles = ['docs/architecture.md'];
+    const result = claudeAdapter.generate(ir, { claudeMd: true, importAgentsMd: true });
+
+    const claudeMd = result.files.find((f) => f.path === 'CLAUDE.md');
+    expect(claudeMd?.keepExisting).toBe(true);
+    // typescript-strict is high priority, so it is inline and has no rule file
+    expect(claudeMd?.content).toStartWith('## typescript-strict\n\n');
+    expect(claudeMd?.content).toContain('No `any` types');
+    expect(result.files.some((f) => f.path === '.claude/rules/typescript-strict.md')).toBe(false);
+    expect(claudeMd?.content).toContain('@.claude/rules/code-style.md\n');
+    expect(claudeMd?.content).toContain('@.claude/rules/database-migrations.md\n');
+    // Glob-scoped rules load by path
+    expect(claudeMd?.content).not.toContain('react-components');
+    // The fixture targets codex, which writes AGENTS.md
+    expect(claudeMd?.content).toEndWith('@docs/architecture.md\n@AGENTS.md\n');
+    expect(result.files.some((f) => f.path === '.claude/CLAUDE.md')).toBe(false);
+  });
+
+  test('imports AGENTS.md only when another target writes it', async () => {
+    const ir = await getMinimalIR();
+    ir.targets = ['claude', 'cursor'];
+    const result = claudeAdapter.generate(ir, { claudeMd: true, importAgentsMd: true });
+
+    expect(result.files.find((f) => f.path === 'CLAUDE.md')?.content).not.toContain('@AGENTS.md');
+    expect(result.warnings).toContain(
+      'importAgentsMd: no other target writes AGENTS.md, so it was not imported',
+    );
+  });
+
   test('generates no settings.json without hooks', async () => {
     const ir = await getMinimalIR();
     const result = claudeAdapter.generate(ir);
@@ -158,4 +290,27 @@ describe('Claude adapter', () => {
     const settings = result.files.find((f) => f.path === '.claude/settings.json');
     expect(settings).toBeUndefined();
   });
+
+  test('writes MCP servers to .mcp.json', async () => {
+    const ir = await getFullIR();
+    const result = claudeAdapter.generate(ir);
+
+    const mcp = result.files.find((f) => f.path === '.mcp.json');
+    expect(mcp).toBeDefined();
+    expect(JSON.parse(mcp?.content ?? '{}')).toEqual({
+      mcpServers: {
+        github: {
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-github'],
+          env: { GITHUB_PERSONAL_ACCESS_TOKEN: '$GITHUB_TOKEN' },
+        },
+        docs: {
+          type: 'http',
+          url: 'https://docs.example.com/mcp',
+          headers: { Authorization: 'Bearer $DOCS_TOKEN' },
+        },
+      },
+    });
+    expect(result.nativeFeatures).toContain('mcp');
+  });
 });
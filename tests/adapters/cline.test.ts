@@ -8,7 +8,10 @@ describe('Cline adapter', () => {
     const result = clineAdapter.generate(ir);
 
     const ruleFiles = result.files.filter(
-      (f) => f.path.startsWith('.clinerules/') && !f.path.includes('00-agentrc'),
+      (f) =>
+        f.path.startsWith('.clinerules/') &&
+        !f.path.includes('00-agentrc') &&
+        !f.path.startsWith('.clinerules/hooks/'),
     );
     expect(ruleFiles.length).toBe(4);
 
@@ -63,6 +66,36 @@ describe('Cline adapter', () => {
     expect(conventions).toBeDefined();
   });
 
+  test('writes one executable hook script per Cline event', async () => {
+    const ir = await getFullIR();
+    const result = clineAdapter.generate(ir);
+
+    const postToolUse = result.files.find((f) => f.path === '.clinerules/hooks/PostToolUse');
+    expect(postToolUse?.executable).toBe(true);
+    expect(postToolUse?.content).toStartWith('#!/bin/sh\n');
+    // The runner picks out the tool, so the script needs nothing but sh
+    expect(postToolUse?.content).not.toContain('jq');
+    expect(postToolUse?.content).toContain('--only-tool edit --only-tool write');
+    expect(postToolUse?.content).toEndWith(`echo '{"cancel":false}'\n`);
+
+    const preToolUse = result.files.find((f) => f.path === '.clinerules/hooks/PreToolUse');
+    expect(preToolUse?.content).toContain('--only-tool shell');
+    expect(result.nativeFeatures).toContain('hooks');
+  });
+
+  test('blocking hooks cancel the task step', async () => {
+    const ir = await getFullIR();
+    ir.hooks = [
+      { event: 'user-prompt-submit', run: './check.sh', description: 'Check', blocking: true },
+    ];
+    const result = clineAdapter.generate(ir);
+
+    const script = result.files.find((f) => f.path === '.clinerules/hooks/UserPromptSubmit');
+    expect(script?.content).toContain(
+      `if ! printf '%s' "$payload" | { ./check.sh; } >&2; then echo '{"cancel":true,"errorMessage":"Check failed"}'; exit 0; fi`,
+    );
+  });
+
   test('conventions file does not contain hooks', async () => {
     const ir = await getFullIR();
     const result = clineAdapter.generate(ir);
@@ -113,4 +146,14 @@ describe('Cline adapter', () => {
     expect(hasHooksDegraded).toBe(false);
     expect(hasSkillsDegraded).toBe(true);
   });
+
+  test('flattens nested rule names into the file name', async () => {
+    const ir = await getFullIR();
+    const [first] = ir.rules;
+    if (!first) throw new Error('fixture has no rules');
+    ir.rules = [{ ...first, name: 'backend/api' }];
+
+    const result = clineAdapter.generate(ir);
+    expect(result.files.map((f) => f.path)).toContain('.clinerules/01-backend-api.md');
+  });
 });
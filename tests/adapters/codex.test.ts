@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'bun:test';
 import { codexAdapter } from '../../src/adapters/codex.ts';
-import { getFullIR } from '../helpers.ts';
+import { getFullIR, getMonorepoIR } from '../helpers.ts';
 
 describe('Codex adapter', () => {
   test('generates AGENTS.md as the primary output file', async () => {
@@ -89,4 +89,69 @@ describe('Codex adapter', () => {
     expect(hasScopedDegraded).toBe(true);
     expect(hasDescDegraded).toBe(true);
   });
+
+  test('writes monorepo package rules to nested AGENTS.md files', async () => {
+    const ir = await getMonorepoIR();
+    const result = codexAdapter.generate(ir);
+
+    const apiAgents = result.files.find((f) => f.path === 'packages/api/AGENTS.md');
+    expect(apiAgents).toBeDefined();
+    expect(apiAgents?.content).toContain('shared error helpers');
+    // Narrower globs are shown relative to the package
+    expect(apiAgents?.content).toContain('`src/handlers/**/*.ts`');
+
+    const rootAgents = result.files.find((f) => f.path === 'AGENTS.md');
+    expect(rootAgents?.content).toContain('Keep changes small');
+    expect(rootAgents?.content).not.toContain('shared error helpers');
+
+    expect(result.nativeFeatures).toContain('nested-instructions');
+  });
+
+  test('writes MCP servers as TOML tables in .codex/config.toml', async () => {
+    const ir = await getFullIR();
+    const result = codexAdapter.generate(ir);
+
+    const config = result.files.find((f) => f.path === '.codex/config.toml');
+    expect(config?.content).toBe(
+      [
+        '[mcp_servers.github]',
+        'command = "npx"',
+        'args = ["-y", "@modelcontextprotocol/server-github"]',
+        '',
+        '[mcp_servers.github.env]',
+        'GITHUB_PERSONAL_ACCESS_TOKEN = "$GITHUB_TOKEN"',
+        '',
+        '[mcp_servers.docs]',
+        'url = "https://docs.example.com/mcp"',
+        '',
+        '[mcp_servers.docs.http_headers]',
+        'Authorization = "Bearer $DOCS_TOKEN"',
+        '',
+      ].join('\n'),
+    );
+    expect(result.nativeFeatures).toContain('mcp');
+  });
+
+  test('approximates permissions with sandbox_mode and approval_policy', async () => {
+    const ir = await getFullIR();
+    ir.permissions = {
+      allow: [{ tool: 'read' }],
+      ask: [{ tool: 'shell', pattern: 'git push' }],
+      deny: [{ tool: 'edit' }],
+    };
+    const result = codexAdapter.generate(ir);
+
+    const config = result.files.find((f) => f.path === '.codex/config.toml');
+    expect(config?.content).toStartWith(
+      'sandbox_mode = "read-only"\napproval_policy = "untrusted"\n\n[mcp_servers.github]\n',
+    );
+    expect(result.degradedFeatures).toContain(
+      'permissions (approximated with sandbox_mode and approval_policy)',
+    );
+
+    ir.permissions = { allow: [{ tool: 'shell' }], ask: [], deny: [] };
+    ir.mcpServers = [];
+    const open = codexAdapter.generate(ir).files.find((f) => f.path === '.codex/config.toml');
+    expect(open?.content).toBe('sandbox_mode = "workspace-write"\napproval_policy = "never"\n');
+  });
 });
@@ -76,4 +76,25 @@ describe('Copilot adapter', () => {
     expect(hasHooksDegraded).toBe(false);
     expect(hasSkillsDegraded).toBe(true);
   });
+
+  test('leaves skills out when foldSkills is false', async () => {
+    const ir = await getFullIR();
+    const result = copilotAdapter.generate(ir, { foldSkills: false });
+
+    const mainFile = result.files.find((f) => f.path === '.github/copilot-instructions.md');
+    expect(mainFile?.content).not.toContain('## Skills');
+    expect(result.degradedFeatures).toContain('skills (omitted: foldSkills is false)');
+  });
+
+  test('writes MCP servers to .vscode/mcp.json under servers', async () => {
+    const ir = await getFullIR();
+    const result = copilotAdapter.generate(ir);
+
+    const mcp = result.files.find((f) => f.path === '.vscode/mcp.json');
+    const parsed = JSON.parse(mcp?.content ?? '{}');
+    expect(parsed.servers.github.type).toBe('stdio');
+    expect(parsed.servers.github.command).toBe('npx');
+    expect(parsed.servers.docs.type).toBe('http');
+    expect(parsed.mcpServers).toBeUndefined();
+  });
 });
@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'bun:test';
 import { cursorAdapter } from '../../src/adapters/cursor.ts';
-import { getFullIR } from '../helpers.ts';
+import { getFullIR, getMonorepoIR } from '../helpers.ts';
 
 describe('Cursor adapter', () => {
   test('generates .mdc per rule in .cursor/rules/', async () => {
@@ -56,12 +56,50 @@ describe('Cursor adapter', () => {
     expect(codeFile?.content).toContain('alwaysApply: false');
   });
 
-  test('omits hooks (not supported natively)', async () => {
+  test('writes hooks to .cursor/hooks.json', async () => {
     const ir = await getFullIR();
     const result = cursorAdapter.generate(ir);
 
-    const hooksFile = result.files.find((f) => f.path === '.cursor/rules/agentrc-hooks.mdc');
-    expect(hooksFile).toBeUndefined();
+    const hooksFile = result.files.find((f) => f.path === '.cursor/hooks.json');
+    expect(hooksFile).toBeDefined();
+    const parsed = JSON.parse(hooksFile?.content ?? '{}') as {
+      version: number;
+      hooks: Record<string, Array<{ command: string }>>;
+    };
+    expect(parsed.version).toBe(1);
+    expect(parsed.hooks.afterFileEdit?.[0]?.command).toBe(
+      `.agentrc/bin/agentrc-hook --file file_path --match '**/*.{ts,tsx}' --stderr -- 'npx prettier --write {file}'`,
+    );
+    expect(parsed.hooks.beforeShellExecution?.[0]?.command).toBe(
+      '.agentrc/bin/agentrc-hook --commit command --stderr -- ./scripts/pre-commit-checks.sh',
+    );
+    expect(result.nativeFeatures).toContain('hooks');
+  });
+
+  test('blocking hooks deny, and events without a Cursor equivalent are skipped', async () => {
+    const ir = await getFullIR();
+    ir.hooks = [
+      {
+        event: 'pre-tool-use',
+        tool: ['shell'],
+        run: './guard.sh',
+        description: 'Guard',
+        blocking: true,
+      },
+      { event: 'session-start', run: './setup.sh', description: 'Setup' },
+    ];
+    const result = cursorAdapter.generate(ir);
+
+    const parsed = JSON.parse(
+      result.files.find((f) => f.path === '.cursor/hooks.json')?.content ?? '{}',
+    ) as { hooks: Record<string, Array<{ command: string }>> };
+    expect(Object.keys(parsed.hooks)).toEqual(['beforeShellExecution']);
+    expect(parsed.hooks.beforeShellExecution?.[0]?.command).toBe(
+      `.agentrc/bin/agentrc-hook --deny '{"permission":"deny"}' --stderr -- ./guard.sh`,
+    );
+    expect(result.warnings).toContain(
+      'Hook "Setup" (session-start) has no Cursor equivalent and was skipped',
+    );
   });
 
   test('generates command files natively', async () => {
@@ -115,4 +153,61 @@ describe('Cursor adapter', () => {
     const hasHooksDegraded = result.degradedFeatures.some((f) => f.includes('hooks'));
     expect(hasHooksDegraded).toBe(false);
   });
+
+  test('writes permissions to .cursor/cli.json, skipping rules the CLI cannot express', async () => {
+    const ir = await getFullIR();
+    ir.permissions = {
+      allow: [{ tool: 'shell', pattern: 'git' }, { tool: 'read' }],
+      ask: [{ tool: 'shell', pattern: 'git push' }],
+      deny: [
+        { tool: 'shell', pattern: 'rm -rf' },
+        { tool: 'edit', pattern: '.env*' },
+      ],
+    };
+    const result = cursorAdapter.generate(ir);
+
+    const cli = result.files.find((f) => f.path === '.cursor/cli.json');
+    expect(JSON.parse(cli?.content ?? '{}')).toEqual({
+      permissions: { allow: ['Shell(git)', 'Read(**)'], deny: ['Write(.env*)'] },
+    });
+    expect(result.nativeFeatures).toContain('permissions');
+    expect(result.warnings).toContain(
+      'Permission ask: shell(git push) has no Cursor CLI equivalent and was skipped',
+    );
+    expect(result.warnings).toContain(
+      'Permission deny: shell(rm -rf) has no Cursor CLI equivalent and was skipped',
+    );
+  });
+
+  test('references context files from an always-applied rule', async () => {
+    const ir = await getFullIR();
+    ir.contextFiles = ['docs/architecture.md', 'CONTRIBUTING.md'];
+    const result = cursorAdapter.generate(ir);
+
+    const rule = result.files.find((f) => f.path === '.cursor/rules/agentrc-context.mdc');
+    expect(rule?.content).toBe(
+      '---\ndescription: "Project context"\nalwaysApply: true\n---\n\n@docs/architecture.md\n@CONTRIBUTING.md\n',
+    );
+    expect(result.nativeFeatures).toContain('context');
+  });
+
+  test('monorepo package rules become globbed rules under the package path', async () => {
+    const ir = await getMonorepoIR();
+    const result = cursorAdapter.generate(ir);
+
+    const style = result.files.find((f) => f.path === '.cursor/rules/packages-api-style.mdc');
+    expect(style).toBeDefined();
+    expect(style?.content).toContain('globs: "packages/api/**"');
+    expect(style?.content).toContain('alwaysApply: false');
+  });
+
+  test('nested rule names keep their subdirectory', async () => {
+    const ir = await getFullIR();
+    const [first] = ir.rules;
+    if (!first) throw new Error('fixture has no rules');
+    ir.rules = [{ ...first, name: 'backend/api' }];
+
+    const result = cursorAdapter.generate(ir);
+    expect(result.files.map((f) => f.path)).toContain('.cursor/rules/backend/api.mdc');
+  });
 });
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HOOK_RUNNER_PATH, HOOK_RUNNER_SOURCE } from '../../src/adapters/hook-runner.ts';
+import { matchGlob } from '../../src/core/glob.ts';
+
+let tempDir: string;
+let runner: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'agentrc-hook-runner-test-'));
+  runner = join(tempDir, HOOK_RUNNER_PATH);
+  await mkdir(join(tempDir, '.agentrc', 'bin'), { recursive: true });
+  await writeFile(runner, HOOK_RUNNER_SOURCE);
+  await chmod(runner, 0o755);
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+/** Run the runner with a JSON payload on stdin. */
+function run(args: string[], payload: unknown = {}) {
+  const result = Bun.spawnSync([process.execPath, runner, ...args], {
+    cwd: tempDir,
+    stdin: new TextEncoder().encode(JSON.stringify(payload)),
+  });
+  return {
+    status: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  };
+}
+
+describe('hook runner', () => {
+  test('matches globs the same way as core/glob.ts', () => {
+    const cases: Array<[string, string]> = [
+      ['src/a.ts', '**/*.{ts,tsx}'],
+      ['a.tsx', '**/*.{ts,tsx}'],
+      ['src/a.js', '**/*.{ts,tsx}'],
+      ['src/a.test.ts', '!**/*.test.ts'],
+      ['src/a.ts', '!**/*.test.ts'],
+      ['docs/x/y.md', 'docs/*.md'],
+      ['docs/y.md', 'docs/*.md'],
+      ['lib/v1.ts', 'lib/v[0-9].ts'],
+    ];
+    for (const [file, glob] of cases) {
+      const result = run(['--file', 'path', '--match', glob, '--', 'echo hit'], { path: file });
+      expect([file, glob, result.stdout === 'hit\n']).toEqual([file, glob, matchGlob(file, glob)]);
+    }
+  });
+
+  test('matches absolute paths relative to the project root', () => {
+    const result = run(['--file', 'tool.path', '--match', 'src/**', '--', 'echo {file}'], {
+      tool: { path: join(tempDir, 'src', 'a.ts') },
+    });
+    expect(result.stdout).toBe(`${join(tempDir, 'src', 'a.ts')}\n`);
+  });
+
+  test('quotes {file} so paths with spaces and quotes survive', () => {
+    const file = `dir/it's a file.ts`;
+    const result = run(['--file', 'missing', '--file', 'path', '--', 'printf "%s|" {file}'], {
+      path: file,
+    });
+    expect(result.stdout).toBe(`${file}|`);
+  });
+
+  test('fills in {dir}, {ext}, {files}, {root}, and {tool}', () => {
+    const payload = { path: 'src/lib/a.test.ts', name: 'mcp__github' };
+    const args = ['--file', 'path', '--tool', 'name', '--tool-names', '{"mcp__*":"mcp"}'];
+    const result = run([...args, '--', 'printf "%s|" {dir} {ext} {files} {root} {tool}'], payload);
+    expect(result.stdout).toBe(`src/lib|ts|src/lib/a.test.ts|${tempDir}|mcp|`);
+
+    // Unmapped tool names come through as the platform names them
+    expect(run(['--tool', 'name', '--', 'echo {tool}'], { name: 'Bash' }).stdout).toBe('Bash\n');
+  });
+
+  test('runs only for the tool kinds given with --only-tool', () => {
+    const args = ['--tool', 'name', '--tool-names', '{"write_to_file":"write"}'];
+    const only = [...args, '--only-tool', 'edit', '--only-tool', 'write', '--', 'echo ran'];
+    expect(run(only, { name: 'write_to_file' }).stdout).toBe('ran\n');
+    expect(run(only, { name: 'execute_command' }).stdout).toBe('');
+    expect(run(only).stdout).toBe('');
+  });
+
+  test('runs once per file for {file}, and once for {files}', async () => {
+    const git = (...args: string[]) => Bun.spawnSync(['git', ...args], { cwd: tempDir });
+    git('init', '-q');
+    await writeFile(join(tempDir, 'a.ts'), '');
+    await writeFile(join(tempDir, 'b.md'), '');
+    git('add', 'a.ts', 'b.md');
+
+    const commit = { command: 'git commit -m x' };
+    const staged = ['--staged', '--commit', 'command', '--'];
+    expect(run([...staged, 'echo {file}'], commit).stdout).toBe('a.ts\nb.md\n');
+    expect(run([...staged, 'echo {files}'], commit).stdout).toBe('a.ts b.md\n');
+    expect(run(['--staged', '--match', '*.md', '--', 'echo {files}']).stdout).toBe('b.md\n');
+  });
+
+  test('skips file hooks when the payload has no file', () => {
+    expect(run(['--file', 'path', '--', 'echo {file}']).stdout).toBe('');
+  });
+
+  test('only runs pre-commit hooks for git commit commands', () => {
+    const args = ['--commit', 'command', '--', 'echo checked'];
+    expect(run(args, { command: 'git commit -m "x"' }).stdout).toBe('checked\n');
+    expect(run(args, { command: 'git status' }).stdout).toBe('');
+  });
+
+  test('passes the payload through on stdin', () => {
+    expect(run(['--block', '--', 'cat'], { a: 1 }).stdout).toBe('{"a":1}');
+  });
+
+  test('blocks with exit 2, or prints the deny response with output on stderr', () => {
+    expect(run(['--', 'exit 3']).status).toBe(3);
+    expect(run(['--block', '--', 'exit 3']).status).toBe(2);
+
+    const denied = run(['--deny', '{"permission":"deny"}', '--stderr', '--', 'echo nope; exit 1']);
+    expect(denied.status).toBe(0);
+    expect(denied.stdout).toBe('{"permission":"deny"}\n');
+    expect(denied.stderr).toBe('nope\n');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildHookCommand,
+  groupHooksByEvent,
+  type HookPlatform,
+  hookRunnerFiles,
+  renderGitPreCommit,
+  unwrapHookCommand,
+} from '../../src/adapters/hooks.ts';
+import type { Hook } from '../../src/core/ir.ts';
+
+const platform: HookPlatform = {
+  file: ['tool.path', 'path'],
+  command: 'tool.command',
+  tool: ['tool.name'],
+  toolNames: { shell: ['Sh'], edit: ['Edit'], write: [], read: [], mcp: ['mcp_*'] },
+};
+
+describe('buildHookCommand', () => {
+  test('runs plain hooks as written, resolving hooks/ scripts', () => {
+    const hook: Hook = { event: 'stop', run: 'hooks/summary.sh', description: 'Summary' };
+    expect(buildHookCommand(hook, platform)).toBe('.agentrc/hooks/summary.sh');
+  });
+
+  test('passes file fields and match to the runner, shell-quoted', () => {
+    const hook: Hook = {
+      event: 'post-edit',
+      match: '**/*.{ts,tsx}',
+      run: `hooks/fmt.sh {file} --label "it's"`,
+      description: 'Format',
+    };
+    expect(buildHookCommand(hook, platform)).toBe(
+      `.agentrc/bin/agentrc-hook --file tool.path --file path --match '**/*.{ts,tsx}' -- '.agentrc/hooks/fmt.sh {file} --label "it'\\''s"'`,
+    );
+  });
+
+  test('routes the other placeholders through the runner', () => {
+    const hook = (event: Hook['event'], run: string): Hook => ({ event, run, description: 'D' });
+
+    expect(buildHookCommand(hook('stop', 'cd {root}'), platform)).toBe(
+      ".agentrc/bin/agentrc-hook -- 'cd {root}'",
+    );
+    expect(buildHookCommand(hook('post-edit', 'fmt {files}'), platform)).toBe(
+      ".agentrc/bin/agentrc-hook --file tool.path --file path -- 'fmt {files}'",
+    );
+    expect(buildHookCommand(hook('pre-tool-use', 'log {tool}'), platform)).toBe(
+      `.agentrc/bin/agentrc-hook --tool tool.name --tool-names '{"Sh":"shell","Edit":"edit","mcp_*":"mcp"}' -- 'log {tool}'`,
+    );
+    // pre-commit hooks see the staged files
+    expect(buildHookCommand(hook('pre-commit', 'lint {dir}'), platform)).toBe(
+      ".agentrc/bin/agentrc-hook --staged --commit tool.command -- 'lint {dir}'",
+    );
+  });
+
+  test('guards pre-commit hooks and blocks with an exit code or a deny response', () => {
+    const hook: Hook = {
+      event: 'pre-commit',
+      run: 'bun test',
+      description: 'Test',
+      blocking: true,
+    };
+    expect(buildHookCommand(hook, platform)).toBe(
+      ".agentrc/bin/agentrc-hook --commit tool.command --block -- 'bun test'",
+    );
+    expect(buildHookCommand(hook, { ...platform, deny: '{"deny":true}', stderr: true })).toBe(
+      `.agentrc/bin/agentrc-hook --commit tool.command --deny '{"deny":true}' --stderr -- 'bun test'`,
+    );
+  });
+});
+
+describe('unwrapHookCommand', () => {
+  test('recovers run, match, blocking, and the pre-commit guard', () => {
+    const hooks: Hook[] = [
+      { event: 'pre-commit', run: 'bun test', description: 'Test', blocking: true },
+      { event: 'post-edit', match: '*.ts', run: `echo "it's" {file}`, description: 'Echo' },
+    ];
+    expect(hooks.map((hook) => unwrapHookCommand(buildHookCommand(hook, platform)))).toEqual([
+      { run: 'bun test', blocking: true, preCommit: true },
+      { run: `echo "it's" {file}`, match: '*.ts', blocking: false, preCommit: false },
+    ]);
+    const tool: Hook = { event: 'pre-tool-use', run: 'log {tool}', description: 'Log' };
+    expect(unwrapHookCommand(buildHookCommand(tool, platform))).toEqual({
+      run: 'log {tool}',
+      blocking: false,
+      preCommit: false,
+    });
+    expect(unwrapHookCommand('bun test')).toEqual({
+      run: 'bun test',
+      blocking: false,
+      preCommit: false,
+    });
+  });
+});
+
+describe('hookRunnerFiles', () => {
+  test('emits the executable runner only when a hook needs it', () => {
+    expect(hookRunnerFiles([{ event: 'stop', run: 'a', description: 'A' }])).toEqual([]);
+    const [runner] = hookRunnerFiles([
+      { event: 'stop', run: 'a', description: 'A', blocking: true },
+    ]);
+    expect(runner?.path).toBe('.agentrc/bin/agentrc-hook');
+    expect(runner?.executable).toBe(true);
+  });
+});
+
+describe('groupHooksByEvent', () => {
+  test('groups by native event and warns about skipped hooks and ignored timeouts', () => {
+    const hooks: Hook[] = [
+      { event: 'post-edit', run: 'a', description: 'A', timeout: 5 },
+      { event: 'post-create', run: 'b', description: 'B' },
+      { event: 'stop', run: 'c', description: 'C' },
+    ];
+    const warnings: string[] = [];
+    const grouped = groupHooksByEvent(
+      hooks,
+      (hook) => (hook.event === 'stop' ? [] : ['after']),
+      'Test',
+      warnings,
+    );
+
+    expect([...grouped.keys()]).toEqual(['after']);
+    expect(grouped.get('after')?.map((h) => h.description)).toEqual(['A', 'B']);
+    expect(warnings).toEqual([
+      'Hook "A": Test hooks have no timeout setting, so timeout is ignored',
+      'Hook "C" (stop) has no Test equivalent and was skipped',
+    ]);
+  });
+});
+
+describe('renderGitPreCommit', () => {
+  test('runs each hook through the runner against staged files', () => {
+    const lines = renderGitPreCommit([
+      { event: 'pre-commit', match: '*.ts', run: 'hooks/fmt.sh {file}', description: 'Format' },
+      { event: 'pre-commit', run: 'bun test', description: 'Test' },
+    ]);
+
+    expect(lines).toEqual([
+      'agentrc_failed=0',
+      '',
+      '# Format',
+      ".agentrc/bin/agentrc-hook --staged --match '*.ts' -- '.agentrc/hooks/fmt.sh {file}' || agentrc_failed=1",
+      '',
+      '# Test',
+      ".agentrc/bin/agentrc-hook --staged -- 'bun test' || agentrc_failed=1",
+      '',
+      '[ "$agentrc_failed" -eq 0 ] || exit 1',
+    ]);
+  });
+});
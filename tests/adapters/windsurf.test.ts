@@ -67,6 +67,10 @@ describe('Windsurf adapter', () => {
       commands: [],
       skills: [],
       agents: [],
+      mcpServers: [],
+      permissions: { allow: [], ask: [], deny: [] },
+      ignores: [],
+      contextFiles: [],
       targets: ['windsurf'],
     };
     const result = windsurfAdapter.generate(ir);
@@ -94,6 +98,10 @@ describe('Windsurf adapter', () => {
       commands: [],
       skills: [],
       agents: [],
+      mcpServers: [],
+      permissions: { allow: [], ask: [], deny: [] },
+      ignores: [],
+      contextFiles: [],
       targets: ['windsurf'],
     };
     const result = windsurfAdapter.generate(ir);
@@ -103,7 +111,7 @@ describe('Windsurf adapter', () => {
     expect(dropWarn).toContain('low-priority');
   });
 
-  test('omits hooks from output', async () => {
+  test('writes hooks to .windsurf/hooks.json', async () => {
     const ir = await getFullIR();
     const result = windsurfAdapter.generate(ir);
 
@@ -112,6 +120,35 @@ describe('Windsurf adapter', () => {
     if (convFile) {
       expect(convFile.content).not.toContain('## Hooks');
     }
+
+    const hooksFile = result.files.find((f) => f.path === '.windsurf/hooks.json');
+    const parsed = JSON.parse(hooksFile?.content ?? '{}') as {
+      hooks: Record<string, Array<{ command: string; show_output: boolean }>>;
+    };
+    expect(Object.keys(parsed.hooks).sort()).toEqual(['post_write_code', 'pre_run_command']);
+    expect(parsed.hooks.post_write_code?.[0]?.command).toContain(
+      '.agentrc/bin/agentrc-hook --file tool_info.file_path',
+    );
+    expect(parsed.hooks.post_write_code?.[0]?.show_output).toBe(true);
+    expect(result.nativeFeatures).toContain('hooks');
+  });
+
+  test('pre-tool-use hooks run on the pre-action event for each tool', async () => {
+    const ir = await getFullIR();
+    ir.hooks = [
+      {
+        event: 'pre-tool-use',
+        tool: ['edit', 'write', 'mcp'],
+        run: './guard.sh',
+        description: 'Guard',
+      },
+    ];
+    const result = windsurfAdapter.generate(ir);
+
+    const parsed = JSON.parse(
+      result.files.find((f) => f.path === '.windsurf/hooks.json')?.content ?? '{}',
+    ) as { hooks: Record<string, unknown> };
+    expect(Object.keys(parsed.hooks)).toEqual(['pre_write_code', 'pre_mcp_tool_use']);
   });
 
   test('does not report hooks as degraded', async () => {
@@ -131,4 +168,36 @@ describe('Windsurf adapter', () => {
     expect(convFile?.content).toContain('Binary Search Debugging');
     expect(convFile?.content).toContain('Rubber Duck Debugging');
   });
+
+  test('honors ruleCharLimit and totalCharLimit options', () => {
+    const ir: IR = {
+      rules: [
+        {
+          name: 'medium-rule',
+          scope: 'always',
+          content: 'x'.repeat(1500),
+          priority: 'normal',
+          sourcePath: 'test.md',
+        },
+      ],
+      hooks: [],
+      commands: [],
+      skills: [],
+      agents: [],
+      mcpServers: [],
+      permissions: { allow: [], ask: [], deny: [] },
+      ignores: [],
+      contextFiles: [],
+      targets: ['windsurf'],
+    };
+
+    const limited = windsurfAdapter.generate(ir, { ruleCharLimit: 1000, totalCharLimit: 1200 });
+    expect(limited.warnings.some((w) => w.includes("Windsurf's 1000-char per-file limit"))).toBe(
+      true,
+    );
+    expect(limited.warnings.some((w) => w.includes('Dropping rule "medium-rule"'))).toBe(true);
+
+    const defaults = windsurfAdapter.generate(ir);
+    expect(defaults.warnings).toEqual([]);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { cp, mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { cp, mkdtemp, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { buildCommand } from '../../src/commands/build.ts';
@@ -107,6 +107,29 @@ describe('buildCommand', () => {
     }
   });
 
+  test('ignore files are merged into and left out of .gitignore', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\ntargets: [cursor]\nignore: [.env]\n',
+      );
+      await writeFile(join(tempDir, '.cursorignore'), 'dist/\n');
+      process.chdir(tempDir);
+      await buildCommand({});
+
+      const cursorignore = await readFile(join(tempDir, '.cursorignore'), 'utf-8');
+      expect(cursorignore).toStartWith('dist/\n');
+      expect(cursorignore).toContain('agentrc managed (do not edit) >>>\n.env\n');
+      const gitignore = await readFile(join(tempDir, '.gitignore'), 'utf-8');
+      expect(gitignore).not.toContain('.cursorignore');
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test('build creates manifest', async () => {
     const tempDir = await createTempProject('full');
     const originalCwd = process.cwd();
@@ -126,4 +149,278 @@ describe('buildCommand', () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   });
+
+  test('a --targets build keeps the other targets in the manifest', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    try {
+      process.chdir(tempDir);
+      await buildCommand({ targets: 'claude,cursor' });
+      await buildCommand({ targets: 'cursor' });
+
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, '.agentrc', '.manifest.json'), 'utf-8'),
+      );
+      const entry = (path: string) => manifest.files.find((f: { path: string }) => f.path === path);
+      expect(entry('.claude/rules/typescript-strict.md')).toMatchObject({
+        targets: ['claude'],
+        sources: ['.agentrc/rules/typescript-strict.md'],
+      });
+      expect(entry('.cursor/rules/typescript-strict.mdc').targets).toEqual(['cursor']);
+      // Both targets use the hook runner
+      expect(entry('.agentrc/bin/agentrc-hook').targets).toEqual(['cursor', 'claude']);
+
+      const gitignore = await readFile(join(tempDir, '.gitignore'), 'utf-8');
+      expect(gitignore).toContain('.claude/rules/typescript-strict.md');
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('a --targets build keeps the files of a manifest that predates targets', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    try {
+      process.chdir(tempDir);
+      await buildCommand({});
+
+      // Manifests written before entries recorded their targets
+      const manifestPath = join(tempDir, '.agentrc', '.manifest.json');
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+      for (const entry of manifest.files) delete entry.targets;
+      await writeFile(manifestPath, JSON.stringify(manifest));
+
+      await buildCommand({ targets: 'cursor', prune: true });
+      const claudeRule = join(tempDir, '.claude', 'rules', 'typescript-strict.md');
+      expect(await pathExists(claudeRule)).toBe(true);
+      const upgraded = JSON.parse(await readFile(manifestPath, 'utf-8'));
+      const paths = upgraded.files.map((f: { path: string }) => f.path);
+      expect(paths).toContain('.claude/rules/typescript-strict.md');
+
+      // Once every configured target is built, untargeted entries are stale as usual
+      await rename(
+        join(tempDir, '.agentrc', 'rules', 'typescript-strict.md'),
+        join(tempDir, '.agentrc', 'rules', 'strict.md'),
+      );
+      await buildCommand({ prune: true });
+      expect(await pathExists(claudeRule)).toBe(false);
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('colliding files fail the build unless collisions: merge', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    try {
+      const configPath = join(tempDir, '.agentrc', 'config.yaml');
+      const config = await readFile(configPath, 'utf-8');
+      await writeFile(configPath, config.replace('collisions: merge', 'collisions: error'));
+      process.chdir(tempDir);
+
+      // A dry run reports the collision without failing
+      await buildCommand({ dryRun: true });
+      await expect(buildCommand({})).rejects.toThrow('1 output file(s) collide between targets');
+      expect(await pathExists(join(tempDir, 'AGENTS.md'))).toBe(false);
+
+      await writeFile(configPath, config);
+      await buildCommand({});
+      const agentsMd = await readFile(join(tempDir, 'AGENTS.md'), 'utf-8');
+      expect(agentsMd).toContain('<!-- agentrc target: codex -->');
+      expect(agentsMd).toContain('<!-- agentrc target: generic-markdown -->');
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Claude imports AGENTS.md only when the build writes it', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    try {
+      const configPath = join(tempDir, '.agentrc', 'config.yaml');
+      const config = await readFile(configPath, 'utf-8');
+      await writeFile(
+        configPath,
+        config.replace(
+          '  - claude\n',
+          '  - name: claude\n    options:\n      claudeMd: true\n      importAgentsMd: true\n',
+        ),
+      );
+      process.chdir(tempDir);
+      console.log = () => {};
+
+      await buildCommand({ targets: 'claude' });
+      expect(await readFile(join(tempDir, 'CLAUDE.md'), 'utf-8')).not.toContain('@AGENTS.md');
+
+      await buildCommand({ targets: 'claude,codex' });
+      expect(await readFile(join(tempDir, 'CLAUDE.md'), 'utf-8')).toContain('@AGENTS.md');
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('rules CLAUDE.md would hold go to .claude/rules when a hand-written one is kept', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    try {
+      const configPath = join(tempDir, '.agentrc', 'config.yaml');
+      const config = await readFile(configPath, 'utf-8');
+      await writeFile(
+        configPath,
+        config.replace('  - claude\n', '  - name: claude\n    options:\n      claudeMd: true\n'),
+      );
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'no-push.md'),
+        '---\npriority: critical\n---\n\nNever push to main.\n',
+      );
+      await writeFile(join(tempDir, 'CLAUDE.md'), 'My own notes.\n');
+      process.chdir(tempDir);
+      console.log = () => {};
+
+      await buildCommand({ targets: 'claude' });
+      expect(await readFile(join(tempDir, 'CLAUDE.md'), 'utf-8')).toBe('My own notes.\n');
+      expect(await readFile(join(tempDir, '.claude', 'rules', 'no-push.md'), 'utf-8')).toContain(
+        'Never push to main.',
+      );
+
+      // Once CLAUDE.md is agentrc's, the rule lives there only
+      await rm(join(tempDir, 'CLAUDE.md'));
+      await buildCommand({ targets: 'claude', prune: true });
+      expect(await readFile(join(tempDir, 'CLAUDE.md'), 'utf-8')).toContain('Never push to main.');
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'no-push.md'))).toBe(false);
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('--prune deletes the output of a renamed rule', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    try {
+      process.chdir(tempDir);
+      await buildCommand({ targets: 'cursor' });
+
+      const rules = join(tempDir, '.agentrc', 'rules');
+      await rename(join(rules, 'code-style.md'), join(rules, 'style.md'));
+
+      // A dry run lists what would be pruned and leaves it in place
+      const logs: string[] = [];
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      await buildCommand({ targets: 'cursor', prune: true, dryRun: true });
+      console.log = originalLog;
+      const output = logs.join('\n');
+      expect(output).toContain('Files that would be pruned:\n  .cursor/rules/code-style.mdc');
+      expect(await pathExists(join(tempDir, '.cursor', 'rules', 'code-style.mdc'))).toBe(true);
+
+      await buildCommand({ targets: 'cursor', prune: true });
+
+      expect(await pathExists(join(tempDir, '.cursor', 'rules', 'code-style.mdc'))).toBe(false);
+      expect(await pathExists(join(tempDir, '.cursor', 'rules', 'style.mdc'))).toBe(true);
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('--prune keeps the files of a target that failed to generate', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const originalError = console.error;
+    try {
+      process.chdir(tempDir);
+      await buildCommand({});
+
+      // Claude's adapter throws on options it doesn't know
+      const configPath = join(tempDir, '.agentrc', 'config.yaml');
+      const config = await readFile(configPath, 'utf-8');
+      await writeFile(
+        configPath,
+        config.replace('  - claude\n', '  - name: claude\n    options:\n      bogus: true\n'),
+      );
+      const rules = join(tempDir, '.agentrc', 'rules');
+      await rename(join(rules, 'typescript-strict.md'), join(rules, 'strict.md'));
+      console.error = () => {};
+      await buildCommand({ prune: true });
+
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'typescript-strict.md'))).toBe(
+        true,
+      );
+      expect(await pathExists(join(tempDir, '.cursor', 'rules', 'typescript-strict.mdc'))).toBe(
+        false,
+      );
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, '.agentrc', '.manifest.json'), 'utf-8'),
+      );
+      const paths = manifest.files.map((f: { path: string }) => f.path);
+      expect(paths).toContain('.claude/rules/typescript-strict.md');
+    } finally {
+      console.error = originalError;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('invalid frontmatter fails the build unless lenient', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'api.md'),
+        '---\npriority: urgent\n---\n\nBody\n',
+      );
+      process.chdir(tempDir);
+      console.log = () => {};
+
+      await expect(buildCommand({ targets: 'claude' })).rejects.toThrow(
+        'Frontmatter validation failed with 1 error(s)',
+      );
+      expect(await pathExists(join(tempDir, '.claude'))).toBe(false);
+
+      await buildCommand({ targets: 'claude', lenient: true });
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'api.md'))).toBe(true);
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('lenient builds warn about unknown targets in frontmatter and drop them', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    const logs: string[] = [];
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'api.md'),
+        '---\ntargets: [claude, vim]\n---\n\nBody\n',
+      );
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+
+      await expect(buildCommand({ targets: 'claude' })).rejects.toThrow(
+        'Frontmatter validation failed with 1 error(s)',
+      );
+
+      await buildCommand({ targets: 'claude', lenient: true });
+      expect(logs.some((line) => line.includes('.agentrc/rules/api.md:2:'))).toBe(true);
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'api.md'))).toBe(true);
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { cp, mkdtemp, rm, stat } from 'node:fs/promises';
+import { appendFile, cp, mkdir, mkdtemp, readFile, rm, stat } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { buildCommand } from '../../src/commands/build.ts';
@@ -51,6 +51,39 @@ describe('cleanCommand', () => {
     }
   });
 
+  test('clean --targets removes only files no other target produces', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    try {
+      process.chdir(tempDir);
+      await buildCommand({ targets: 'claude,cursor' });
+
+      await cleanCommand({ targets: 'cursor' });
+
+      expect(await pathExists(join(tempDir, '.cursor', 'rules', 'typescript-strict.mdc'))).toBe(
+        false,
+      );
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'typescript-strict.md'))).toBe(
+        true,
+      );
+      // Claude still runs hooks through the shared runner
+      expect(await pathExists(join(tempDir, '.agentrc', 'bin', 'agentrc-hook'))).toBe(true);
+
+      const gitignore = await readFile(join(tempDir, '.gitignore'), 'utf-8');
+      expect(gitignore).toContain('.claude/rules/typescript-strict.md');
+      expect(gitignore).not.toContain('.cursor/');
+
+      // The rest goes with a full clean
+      await cleanCommand();
+      expect(await pathExists(join(tempDir, '.claude', 'rules', 'typescript-strict.md'))).toBe(
+        false,
+      );
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test('clean with no manifest is a no-op', async () => {
     const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-cmd-test-'));
     const originalCwd = process.cwd();
@@ -63,4 +96,29 @@ describe('cleanCommand', () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   });
+
+  test('clean removes the pre-commit section build installed', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    try {
+      process.chdir(tempDir);
+      await mkdir(join(tempDir, '.git'));
+      await appendFile(join(tempDir, '.agentrc', 'config.yaml'), '\ngitHooks: true\n');
+
+      await buildCommand({ targets: 'claude' });
+
+      const hookPath = join(tempDir, '.git', 'hooks', 'pre-commit');
+      expect(await readFile(hookPath, 'utf-8')).toContain('./scripts/pre-commit-checks.sh');
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, '.agentrc', '.manifest.json'), 'utf-8'),
+      ) as { gitHook?: string };
+      expect(manifest.gitHook).toBe('.git/hooks/pre-commit');
+
+      await cleanCommand();
+      expect(await pathExists(hookPath)).toBe(false);
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildCommand } from '../../src/commands/build.ts';
+import { hooksRunCommand } from '../../src/commands/hooks.ts';
+
+let tempDir: string;
+let originalCwd: string;
+let logs: string[];
+const originalLog = console.log;
+
+const CONFIG = `version: "1"
+targets:
+  - claude
+  - cursor
+  - copilot
+hooks:
+  - event: post-edit
+    match: "**/*.ts"
+    run: "echo formatted {file}"
+    description: "Format"
+  - event: pre-tool-use
+    tool: shell
+    run: "exit 1"
+    description: "Guard"
+    blocking: true
+`;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'agentrc-hooks-run-test-'));
+  await mkdir(join(tempDir, '.agentrc'), { recursive: true });
+  await writeFile(join(tempDir, '.agentrc', 'config.yaml'), CONFIG);
+  originalCwd = process.cwd();
+  process.chdir(tempDir);
+  logs = [];
+  console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+});
+
+afterEach(async () => {
+  console.log = originalLog;
+  process.chdir(originalCwd);
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('hooksRunCommand', () => {
+  test('runs matching hooks on each configured platform with its own payload', async () => {
+    await buildCommand({});
+    logs = [];
+    await hooksRunCommand('post-edit', { file: 'src/a.ts' });
+
+    const output = logs.join('\n');
+    expect(output).toContain('claude (PostToolUse)');
+    expect(output).toContain(
+      "$ .agentrc/bin/agentrc-hook --file tool_input.file_path --match '**/*.ts' -- 'echo formatted {file}'",
+    );
+    expect(output).toContain(`│ formatted ${join(tempDir, 'src', 'a.ts')}`);
+    expect(output).toContain('cursor (afterFileEdit)');
+    // copilot has no native hooks
+    expect(output).not.toContain('copilot');
+  });
+
+  test('leaves out hooks whose match the file misses', async () => {
+    await hooksRunCommand('post-edit', { file: 'README.md' });
+    expect(logs.join('\n')).toContain('No hooks run on this event.');
+  });
+
+  test('reports blocking hooks the way each platform blocks', async () => {
+    await buildCommand({});
+    logs = [];
+    await expect(
+      hooksRunCommand('pre-tool-use', { command: 'rm -rf /', target: 'cursor' }),
+    ).rejects.toThrow('1 hook command(s) failed');
+
+    const output = logs.join('\n');
+    expect(output).toContain('cursor (beforeShellExecution)');
+    expect(output).toContain('│ {"permission":"deny"}');
+    expect(output).toContain('exit 0, blocks the pre-tool-use');
+  });
+
+  test('rejects unknown events, targets without hooks, and a missing runner', async () => {
+    await expect(hooksRunCommand('on-save', {})).rejects.toThrow('Unknown hook event "on-save"');
+    await expect(hooksRunCommand('post-edit', { target: 'copilot' })).rejects.toThrow(
+      'Target "copilot" has no native hooks',
+    );
+    await expect(hooksRunCommand('post-edit', { file: 'src/a.ts' })).rejects.toThrow(
+      '.agentrc/bin/agentrc-hook not found. Run agentrc build first.',
+    );
+  });
+});
@@ -1,13 +1,13 @@
 import { describe, expect, test } from 'bun:test';
-import { cp, mkdtemp, rm } from 'node:fs/promises';
+import { cp, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { inspectCommand } from '../../src/commands/inspect.ts';
 import { FIXTURES } from '../helpers.ts';
 
-async function createTempProject(fixtureName: 'full' | 'minimal'): Promise<string> {
+async function createTempProject(fixtureName: 'full' | 'minimal' | 'extends'): Promise<string> {
   const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-cmd-test-'));
-  await cp(join(FIXTURES, fixtureName, '.agentrc'), join(tempDir, '.agentrc'), { recursive: true });
+  await cp(join(FIXTURES, fixtureName), tempDir, { recursive: true });
   return tempDir;
 }
 
@@ -44,4 +44,104 @@ describe('inspectCommand', () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   });
+
+  test('inspect shows which layer each item came from', async () => {
+    const tempDir = await createTempProject('extends');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await inspectCommand('claude');
+
+      const output = logs.join('\n');
+      expect(output).toContain('Sources:');
+      expect(output).toMatch(/rule\s+security \(\.\/presets\/org\)/);
+      expect(output).toMatch(/rule\s+naming \(\.\.\/base\)/);
+      expect(output).toMatch(/rule\s+typescript \(local\)/);
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('inspect reports items filtered out for the platform', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'claude-tools.md'),
+        '---\ntargets: claude\n---\n\nPrefer the Task tool for broad searches.\n',
+      );
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await inspectCommand('cursor');
+
+      const output = logs.join('\n');
+      expect(output).toContain('Filtered out:');
+      expect(output).toMatch(/rule\s+claude-tools \(targets: claude\)/);
+      expect(output).not.toContain('.cursor/rules/claude-tools.mdc');
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('inspect reports files other targets write differently', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await inspectCommand('codex');
+
+      const output = logs.join('\n');
+      expect(output).toContain('Collisions:');
+      expect(output).toContain(
+        'AGENTS.md is written by codex, generic-markdown with different content (merged)',
+      );
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('inspect reports targets whose collisions it could not check', async () => {
+    const tempDir = await createTempProject('full');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      const configPath = join(tempDir, '.agentrc', 'config.yaml');
+      const config = await readFile(configPath, 'utf-8');
+      await writeFile(
+        configPath,
+        config.replace(
+          '  - generic-markdown\n',
+          '  - name: generic-markdown\n    options:\n      outputFile: RULES.md\n',
+        ),
+      );
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await inspectCommand('codex');
+
+      const output = logs.join('\n');
+      expect(output).not.toContain('Collisions:');
+      expect(output).toContain(
+        "Failed to generate for generic-markdown, so collisions with it weren't checked",
+      );
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });
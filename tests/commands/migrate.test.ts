@@ -184,7 +184,7 @@ describe('Claude plugin import', () => {
     const pluginRoot = '$' + '{CLAUDE_PLUGIN_ROOT}';
     const hooksJson = {
       hooks: {
-        Notification: [
+        Stop: [
           {
             matcher: '',
             hooks: [
@@ -224,7 +224,7 @@ describe('Claude plugin import', () => {
     const config = parseYaml(configContent) as Record<string, unknown>;
     const hooks = config.hooks as Array<Record<string, string>>;
     expect(hooks.length).toBe(1);
-    expect(hooks[0].event).toBe('pre-commit');
+    expect(hooks[0].event).toBe('stop');
   });
 });
 
@@ -351,10 +351,10 @@ describe('summary output', () => {
     await mkdir(join(tempDir, '.claude'), { recursive: true });
     const settings = {
       hooks: {
-        SessionStart: [
+        Notification: [
           {
-            matcher: 'startup',
-            hooks: [{ type: 'command', command: 'echo "startup"' }],
+            matcher: '',
+            hooks: [{ type: 'command', command: 'echo "notified"' }],
           },
         ],
       },
@@ -369,7 +369,7 @@ describe('summary output', () => {
 
     const output = logs.join('\n');
     expect(output).toContain('Warnings:');
-    expect(output).toContain('SessionStart');
+    expect(output).toContain('Notification');
   });
 });
 
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { cp, mkdtemp, rm } from 'node:fs/promises';
+import { cp, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { validateCommand } from '../../src/commands/validate.ts';
@@ -61,4 +61,105 @@ describe('validateCommand', () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   });
+
+  test('invalid target options throw', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\ntargets:\n  - name: windsurf\n    options:\n      ruleCharLimit: -5\n',
+      );
+      process.chdir(tempDir);
+      await expect(validateCommand()).rejects.toThrow('Invalid options for target "windsurf"');
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports unbalanced and unknown-target conditional blocks', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'editing.md'),
+        'Shared.\n\n<!-- agentrc:if target=vscode -->\nUse the Edit tool.\n',
+      );
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await expect(validateCommand()).rejects.toThrow('Validation failed with 2 error(s)');
+
+      const output = logs.join('\n');
+      expect(output).toContain(
+        '.agentrc/rules/editing.md:3: Unknown target "vscode" in agentrc:if',
+      );
+      expect(output).toContain('.agentrc/rules/editing.md:3: agentrc:if is never closed');
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('undefined variables fail validation', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    try {
+      await writeFile(join(tempDir, '.agentrc', 'rules', 'tests.md'), 'Run {{testCommand}}.\n');
+      process.chdir(tempDir);
+      await expect(validateCommand()).rejects.toThrow('Undefined variables: {{testCommand}}');
+    } finally {
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('missing context files fail validation', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\ncontext: [README.md, docs/missing.md]\n',
+      );
+      await writeFile(join(tempDir, 'README.md'), '# Project\n');
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await expect(validateCommand()).rejects.toThrow('Validation failed with 1 error(s)');
+      expect(logs.join('\n')).toContain('context: docs/missing.md not found');
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports frontmatter problems with file and line', async () => {
+    const tempDir = await createTempProject('minimal');
+    const originalCwd = process.cwd();
+    const logs: string[] = [];
+    const originalLog = console.log;
+    try {
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'api.md'),
+        '---\ndescription: API\nglob: "src/api/**"\n---\n\nBody\n',
+      );
+      process.chdir(tempDir);
+      console.log = (...args: unknown[]) => logs.push(args.map(String).join(' '));
+      await expect(validateCommand()).rejects.toThrow('Validation failed with 1 error(s)');
+
+      expect(logs.join('\n')).toContain(
+        '.agentrc/rules/api.md:3: Unknown rule frontmatter key "glob" (did you mean "globs"?)',
+      );
+    } finally {
+      console.log = originalLog;
+      process.chdir(originalCwd);
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { checkConditionals, resolveConditionals } from '../../src/core/conditionals.ts';
+
+const RULE = `Shared guidance.
+
+<!-- agentrc:if target=claude -->
+Use the Edit tool.
+<!-- agentrc:else -->
+Use apply_patch.
+<!-- agentrc:endif -->
+
+More shared guidance.`;
+
+describe('resolveConditionals', () => {
+  test('keeps the matching branch for the target', () => {
+    expect(resolveConditionals(RULE, 'claude')).toBe(
+      'Shared guidance.\n\nUse the Edit tool.\n\nMore shared guidance.',
+    );
+  });
+
+  test('keeps the else branch for other targets', () => {
+    expect(resolveConditionals(RULE, 'codex')).toBe(
+      'Shared guidance.\n\nUse apply_patch.\n\nMore shared guidance.',
+    );
+  });
+
+  test('supports target lists and negation', () => {
+    const text =
+      '<!-- agentrc:if target=claude,cursor -->A<!-- agentrc:endif -->' +
+      '<!-- agentrc:if target!=copilot -->B<!-- agentrc:endif -->';
+    expect(resolveConditionals(text, 'cursor')).toBe('AB');
+    expect(resolveConditionals(text, 'copilot')).toBe('');
+    expect(resolveConditionals(text, 'gemini')).toBe('B');
+  });
+
+  test('drops nested blocks when the outer block is inactive', () => {
+    const text = `<!-- agentrc:if target=claude -->
+outer
+<!-- agentrc:if target!=claude -->
+never
+<!-- agentrc:endif -->
+<!-- agentrc:endif -->
+after`;
+    expect(resolveConditionals(text, 'claude')).toBe('outer\nafter');
+    expect(resolveConditionals(text, 'cursor')).toBe('after');
+  });
+
+  test('drops a block with no matching target and no else branch', () => {
+    const text =
+      'Before.\n\n<!-- agentrc:if target=claude -->\nClaude only.\n<!-- agentrc:endif -->\n\nAfter.';
+    expect(resolveConditionals(text, 'cursor')).toBe('Before.\n\nAfter.');
+  });
+
+  test('returns text without directives unchanged', () => {
+    expect(resolveConditionals('Plain <!-- comment --> text', 'claude')).toBe(
+      'Plain <!-- comment --> text',
+    );
+  });
+
+  test('round-trips a file without directives byte for byte', () => {
+    const text = '\n# Title\n\n\n\n```\nline one\n\n\n\nline two\n```\n\n';
+    expect(resolveConditionals(text, 'claude')).toBe(text);
+  });
+
+  test('keeps blank-line runs away from removed blocks', () => {
+    const text =
+      '```\na\n\n\n\nb\n```\n\n<!-- agentrc:if target=claude -->\nClaude only.\n<!-- agentrc:endif -->\n\nAfter.';
+    expect(resolveConditionals(text, 'cursor')).toBe('```\na\n\n\n\nb\n```\n\nAfter.');
+  });
+
+  test('throws on unbalanced blocks', () => {
+    expect(() => resolveConditionals('<!-- agentrc:if target=claude -->\nA', 'claude')).toThrow(
+      'never closed',
+    );
+  });
+});
+
+describe('checkConditionals', () => {
+  test('reports nothing for well-formed blocks', () => {
+    expect(checkConditionals(RULE)).toEqual([]);
+  });
+
+  test('reports unclosed if and stray endif with line numbers', () => {
+    const text = 'a\n<!-- agentrc:endif -->\n<!-- agentrc:if target=claude -->\nb';
+    expect(checkConditionals(text)).toEqual([
+      { line: 2, message: 'agentrc:endif without a matching agentrc:if' },
+      { line: 3, message: 'agentrc:if is never closed with agentrc:endif' },
+    ]);
+  });
+
+  test('reports unknown targets and malformed conditions', () => {
+    const text =
+      '<!-- agentrc:if target=vscode -->\n<!-- agentrc:endif -->\n' +
+      '<!-- agentrc:if platform=claude -->\n<!-- agentrc:endif -->';
+    const problems = checkConditionals(text);
+    expect(problems[0]).toEqual({ line: 1, message: 'Unknown target "vscode" in agentrc:if' });
+    expect(problems[1]?.line).toBe(3);
+    expect(problems[1]?.message).toContain('Invalid condition "platform=claude"');
+  });
+
+  test('reports duplicate else and unknown directives', () => {
+    const text =
+      '<!-- agentrc:if target=claude -->\n<!-- agentrc:else -->\n<!-- agentrc:else -->\n' +
+      '<!-- agentrc:endif -->\n<!-- agentrc:unless target=claude -->';
+    expect(checkConditionals(text).map((p) => p.message)).toEqual([
+      'Second agentrc:else for the agentrc:if on line 1',
+      'Unknown directive "agentrc:unless"',
+    ]);
+  });
+});
@@ -141,4 +141,270 @@ targets:
     const config = parseConfig(yaml);
     expect(config.targets).toHaveLength(13);
   });
+
+  test('parses package globs for monorepos', () => {
+    const yaml = `
+version: "1"
+packages:
+  - packages/*
+  - "!packages/legacy"
+`;
+    const config = parseConfig(yaml);
+    expect(config.packages).toEqual(['packages/*', '!packages/legacy']);
+  });
+
+  test('leaves packages unset when not specified', () => {
+    const config = parseConfig('version: "1"');
+    expect(config.packages).toBeUndefined();
+  });
+
+  test('normalizes a single extends string to an array', () => {
+    const config = parseConfig('version: "1"\nextends: ./presets/org');
+    expect(config.extends).toEqual(['./presets/org']);
+  });
+
+  test('accepts a list of extends presets', () => {
+    const yaml = `
+version: "1"
+extends:
+  - "@acme/agentrc-preset"
+  - ../shared
+`;
+    const config = parseConfig(yaml);
+    expect(config.extends).toEqual(['@acme/agentrc-preset', '../shared']);
+  });
+
+  test('rejects non-string extends entries', () => {
+    expect(() => parseConfig('version: "1"\nextends:\n  - 42')).toThrow('validation failed');
+  });
+
+  test('accepts targets with per-target options', () => {
+    const yaml = `
+version: "1"
+targets:
+  - claude
+  - name: windsurf
+    options:
+      ruleCharLimit: 4000
+  - name: copilot
+`;
+    const config = parseConfig(yaml);
+    expect(config.targets).toEqual(['claude', 'windsurf', 'copilot']);
+    expect(config.targetOptions).toEqual({ windsurf: { ruleCharLimit: 4000 } });
+  });
+
+  test('rejects target objects with an unknown name', () => {
+    const yaml = `
+version: "1"
+targets:
+  - name: notepad
+`;
+    expect(() => parseConfig(yaml)).toThrow('validation failed');
+  });
+
+  test('leaves targetOptions unset for bare target names', () => {
+    const config = parseConfig('version: "1"\ntargets:\n  - claude');
+    expect(config.targetOptions).toBeUndefined();
+  });
+
+  test('stringifies vars values', () => {
+    const yaml = `
+version: "1"
+vars:
+  packageManager: pnpm
+  node.version: 20
+  strict: true
+`;
+    const config = parseConfig(yaml);
+    expect(config.vars).toEqual({ packageManager: 'pnpm', 'node.version': '20', strict: 'true' });
+  });
+
+  test('rejects vars with invalid names or non-scalar values', () => {
+    expect(() => parseConfig('version: "1"\nvars:\n  "bad name": x')).toThrow('validation failed');
+    expect(() => parseConfig('version: "1"\nvars:\n  list: [1, 2]')).toThrow('validation failed');
+  });
+
+  test('parses mcpServers into stdio and http servers', () => {
+    const yaml = `
+version: "1"
+mcpServers:
+  github:
+    command: npx
+    args: ["-y", "server-github"]
+    env:
+      TOKEN: abc
+  docs:
+    type: http
+    url: https://example.com/mcp
+`;
+    const config = parseConfig(yaml);
+    expect(config.mcpServers).toEqual([
+      {
+        name: 'github',
+        transport: 'stdio',
+        command: 'npx',
+        args: ['-y', 'server-github'],
+        env: { TOKEN: 'abc' },
+      },
+      { name: 'docs', transport: 'http', url: 'https://example.com/mcp' },
+    ]);
+  });
+
+  test('rejects MCP servers with both or neither of command and url', () => {
+    expect(() =>
+      parseConfig('version: "1"\nmcpServers:\n  x:\n    command: a\n    url: http://b'),
+    ).toThrow('validation failed');
+    expect(() => parseConfig('version: "1"\nmcpServers:\n  x:\n    args: [a]')).toThrow(
+      'validation failed',
+    );
+    expect(() =>
+      parseConfig('version: "1"\nmcpServers:\n  x:\n    type: http\n    command: a'),
+    ).toThrow('validation failed');
+  });
+
+  test('checks hook placeholders against the event', () => {
+    const hook = (event: string, run: string) =>
+      `version: "1"\nhooks:\n  - event: ${event}\n    run: '${run}'\n    description: b`;
+
+    expect(parseConfig(hook('pre-commit', 'eslint {files} --cwd {root}')).hooks).toHaveLength(1);
+    expect(parseConfig(hook('stop', 'echo {{name}} $' + '{HOME} {root}')).hooks).toHaveLength(1);
+    expect(() => parseConfig(hook('post-edit', 'fmt {File}'))).toThrow(
+      '/hooks/0: unknown placeholder {File} in run (use {file}, {files}, {dir}, {ext}, {root}, {tool})',
+    );
+    expect(() => parseConfig(hook('stop', 'fmt {file}'))).toThrow(
+      '/hooks/0: stop hooks have no {file}',
+    );
+    expect(() => parseConfig(hook('pre-commit', 'log {tool}'))).toThrow(
+      '/hooks/0: pre-commit hooks have no {tool}',
+    );
+  });
+
+  test('leaves braces that are not placeholders alone', () => {
+    const yaml = (run: string) =>
+      `version: "1"\nhooks:\n  - event: stop\n    run: ${JSON.stringify(run)}\n    description: b`;
+
+    expect(parseConfig(yaml("git log | awk '{print $1}'")).hooks?.[0]?.run).toBe(
+      "git log | awk '{print $1}'",
+    );
+    expect(parseConfig(yaml("awk '{print}' log.txt")).hooks).toHaveLength(1);
+    expect(parseConfig(yaml('echo {flie}')).hooks).toHaveLength(1);
+  });
+
+  test('normalizes hook tool to a list and keeps timeout and blocking', () => {
+    const yaml = `
+version: "1"
+hooks:
+  - event: pre-tool-use
+    tool: shell
+    run: ./guard.sh
+    description: Guard
+    timeout: 10
+    blocking: true
+  - event: session-start
+    run: ./setup.sh
+    description: Setup
+`;
+    const config = parseConfig(yaml);
+    expect(config.hooks).toEqual([
+      {
+        event: 'pre-tool-use',
+        tool: ['shell'],
+        run: './guard.sh',
+        description: 'Guard',
+        timeout: 10,
+        blocking: true,
+      },
+      { event: 'session-start', run: './setup.sh', description: 'Setup' },
+    ]);
+  });
+
+  test('rejects tool outside pre-tool-use and blocking on events that cannot block', () => {
+    expect(() =>
+      parseConfig(
+        'version: "1"\nhooks:\n  - event: post-edit\n    tool: edit\n    run: a\n    description: b',
+      ),
+    ).toThrow('/hooks/0: tool only applies to pre-tool-use hooks');
+    expect(() =>
+      parseConfig(
+        'version: "1"\nhooks:\n  - event: session-start\n    blocking: true\n    run: a\n    description: b',
+      ),
+    ).toThrow("/hooks/0: session-start hooks can't block");
+    expect(() =>
+      parseConfig(
+        'version: "1"\nhooks:\n  - event: stop\n    timeout: 0\n    run: a\n    description: b',
+      ),
+    ).toThrow('validation failed');
+  });
+
+  test('parses permission rules as bare tools or tool: pattern pairs', () => {
+    const yaml = `
+version: "1"
+permissions:
+  allow:
+    - shell: npm test
+    - read
+  deny:
+    - read: .env
+    - mcp: github
+`;
+    expect(parseConfig(yaml).permissions).toEqual({
+      allow: [{ tool: 'shell', pattern: 'npm test' }, { tool: 'read' }],
+      ask: [],
+      deny: [
+        { tool: 'read', pattern: '.env' },
+        { tool: 'mcp', pattern: 'github' },
+      ],
+    });
+    expect(parseConfig('version: "1"').permissions).toBeUndefined();
+  });
+
+  test('rejects unknown permission tools, lists, and multi-key rules', () => {
+    expect(() => parseConfig('version: "1"\npermissions:\n  allow: [browser]')).toThrow(
+      'validation failed',
+    );
+    expect(() => parseConfig('version: "1"\npermissions:\n  block: [shell]')).toThrow(
+      'validation failed',
+    );
+    expect(() =>
+      parseConfig('version: "1"\npermissions:\n  deny:\n    - { read: .env, edit: .env }'),
+    ).toThrow('validation failed');
+  });
+
+  test('parses ignore patterns', () => {
+    expect(
+      parseConfig('version: "1"\nignore: [".env", "secrets/", "!secrets/README.md"]').ignore,
+    ).toEqual(['.env', 'secrets/', '!secrets/README.md']);
+    expect(parseConfig('version: "1"').ignore).toBeUndefined();
+    expect(() => parseConfig('version: "1"\nignore: [""]')).toThrow('validation failed');
+  });
+
+  test('parses context files', () => {
+    expect(parseConfig('version: "1"\ncontext: [docs/architecture.md]').context).toEqual([
+      'docs/architecture.md',
+    ]);
+    expect(() => parseConfig('version: "1"\ncontext: docs/architecture.md')).toThrow(
+      'validation failed',
+    );
+  });
+
+  test('parses gitHooks', () => {
+    expect(parseConfig('version: "1"\ngitHooks: true').gitHooks).toBe(true);
+    expect(parseConfig('version: "1"').gitHooks).toBeUndefined();
+    expect(() => parseConfig('version: "1"\ngitHooks: yes please')).toThrow('validation failed');
+  });
+
+  test('parses collisions', () => {
+    expect(parseConfig('version: "1"\ncollisions: merge').collisions).toBe('merge');
+    expect(() => parseConfig('version: "1"\ncollisions: last-wins')).toThrow('validation failed');
+  });
+
+  test('parses managedBlocks', () => {
+    expect(parseConfig('version: "1"\nmanagedBlocks: true').managedBlocks).toBe(true);
+    expect(parseConfig('version: "1"').managedBlocks).toBeUndefined();
+  });
+
+  test('parses prune', () => {
+    expect(parseConfig('version: "1"\nprune: true').prune).toBe(true);
+    expect(() => parseConfig('version: "1"\nprune: always')).toThrow('validation failed');
+  });
 });
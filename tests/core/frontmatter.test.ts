@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { parseFrontmatter } from '../../src/core/frontmatter.ts';
+import { parseFrontmatter, validateFrontmatter } from '../../src/core/frontmatter.ts';
 
 describe('parseFrontmatter', () => {
   test('parses frontmatter and content', () => {
@@ -185,4 +185,84 @@ Content.`;
     const result = parseFrontmatter(raw);
     expect(result.frontmatter.tools).toEqual(['Read']);
   });
+
+  test('normalizes targets and excludeTargets to arrays', () => {
+    const raw = `---
+targets: claude
+excludeTargets:
+  - copilot
+  - windsurf
+---
+
+Content.`;
+
+    const result = parseFrontmatter(raw);
+    expect(result.frontmatter.targets).toEqual(['claude']);
+    expect(result.frontmatter.excludeTargets).toEqual(['copilot', 'windsurf']);
+  });
+});
+
+describe('validateFrontmatter', () => {
+  test('accepts valid frontmatter for each kind', () => {
+    expect(
+      validateFrontmatter(
+        '---\nglobs: ["*.ts"]\npriority: high\ntargets: claude\n---\nBody',
+        'rule',
+      ),
+    ).toEqual([]);
+    expect(
+      validateFrontmatter(
+        '---\ndescription: Review\nargument-hint: "[file]"\nallowed-tools: Read, Grep\n---\n',
+        'command',
+      ),
+    ).toEqual([]);
+    expect(
+      validateFrontmatter('---\nname: r\ntools: Read, Grep\ncolor: blue\n---\n', 'agent'),
+    ).toEqual([]);
+    expect(validateFrontmatter('---\nname: debug\ndescription: Debug\n---\n', 'skill')).toEqual([]);
+    expect(validateFrontmatter('No frontmatter at all.', 'rule')).toEqual([]);
+  });
+
+  test('reports unknown keys with a suggestion and the line number', () => {
+    const raw = '---\ndescription: API rules\nglob: "src/**"\nalwaysapply: true\n---\n\nBody';
+    expect(validateFrontmatter(raw, 'rule')).toEqual([
+      { line: 3, message: 'Unknown rule frontmatter key "glob" (did you mean "globs"?)' },
+      {
+        line: 4,
+        message: 'Unknown rule frontmatter key "alwaysapply" (did you mean "alwaysApply"?)',
+      },
+    ]);
+  });
+
+  test('reports invalid enum values', () => {
+    const raw = '---\npriority: urgent\n---\n';
+    expect(validateFrontmatter(raw, 'rule')).toEqual([
+      {
+        line: 2,
+        message: 'Invalid value for "priority": must be one of critical, high, normal, low',
+      },
+    ]);
+  });
+
+  test('reports wrong types once per key', () => {
+    const raw = '---\ndescription: ok\nglobs: 5\nmanual: "yes"\n---\n';
+    expect(validateFrontmatter(raw, 'rule')).toEqual([
+      { line: 3, message: 'Invalid "globs": must be a string or a list of strings' },
+      { line: 4, message: 'Invalid "manual": must be boolean' },
+    ]);
+  });
+
+  test('reports unknown target names', () => {
+    const raw = '---\nexcludeTargets: [copilot, vscode]\n---\n';
+    const problems = validateFrontmatter(raw, 'command');
+    expect(problems).toHaveLength(1);
+    expect(problems[0]?.line).toBe(2);
+    expect(problems[0]?.message).toContain('Invalid value for "excludeTargets"');
+  });
+
+  test('keys valid for one kind are unknown for another', () => {
+    expect(validateFrontmatter('---\npriority: high\n---\n', 'command')).toEqual([
+      { line: 2, message: 'Unknown command frontmatter key "priority"' },
+    ]);
+  });
 });
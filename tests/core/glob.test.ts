@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { expandBraces, globToRegExp, matchGlob, mayMatchBelow } from '../../src/core/glob.ts';
+
+describe('expandBraces', () => {
+  test('expands a single group', () => {
+    expect(expandBraces('*.{ts,tsx}')).toEqual(['*.ts', '*.tsx']);
+  });
+
+  test('expands multiple and nested groups', () => {
+    expect(expandBraces('{src,lib}/*.{js,m{js,ts}}')).toEqual([
+      'src/*.js',
+      'src/*.mjs',
+      'src/*.mts',
+      'lib/*.js',
+      'lib/*.mjs',
+      'lib/*.mts',
+    ]);
+  });
+
+  test('leaves patterns without groups untouched', () => {
+    expect(expandBraces('src/**/*.ts')).toEqual(['src/**/*.ts']);
+  });
+});
+
+describe('globToRegExp', () => {
+  test('single star does not cross directories', () => {
+    expect(globToRegExp('src/*.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/nested/a.ts')).toBe(false);
+  });
+
+  test('double star matches zero or more directories', () => {
+    const re = globToRegExp('src/**/*.ts');
+    expect(re.test('src/a.ts')).toBe(true);
+    expect(re.test('src/a/b/c.ts')).toBe(true);
+    expect(re.test('lib/a.ts')).toBe(false);
+  });
+
+  test('escapes regex characters', () => {
+    expect(globToRegExp('a+b.(ts)').test('a+b.(ts)')).toBe(true);
+    expect(globToRegExp('a.ts').test('abts')).toBe(false);
+  });
+});
+
+describe('matchGlob', () => {
+  test('matches brace patterns', () => {
+    expect(matchGlob('src/components/Button.tsx', '**/*.{ts,tsx}')).toBe(true);
+    expect(matchGlob('README.md', '**/*.{ts,tsx}')).toBe(false);
+  });
+
+  test('negated patterns exclude matches', () => {
+    const patterns = ['packages/*', '!packages/internal'];
+    expect(matchGlob('packages/api', patterns)).toBe(true);
+    expect(matchGlob('packages/internal', patterns)).toBe(false);
+  });
+
+  test('only-negated patterns match everything else', () => {
+    expect(matchGlob('src/a.ts', '!**/*.test.ts')).toBe(true);
+    expect(matchGlob('src/a.test.ts', '!**/*.test.ts')).toBe(false);
+  });
+
+  test('ignores a leading ./ on paths and patterns', () => {
+    expect(matchGlob('./src/a.ts', './src/*.ts')).toBe(true);
+  });
+});
+
+describe('mayMatchBelow', () => {
+  test('follows globs only as deep as they reach', () => {
+    expect(mayMatchBelow('packages', 'packages/*')).toBe(true);
+    expect(mayMatchBelow('packages/api', 'packages/*')).toBe(false);
+    expect(mayMatchBelow('src', 'packages/*')).toBe(false);
+    expect(mayMatchBelow('apps/web', ['{apps,libs}/**'])).toBe(true);
+    expect(mayMatchBelow('anything', '!packages/internal')).toBe(true);
+  });
+});
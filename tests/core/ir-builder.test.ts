@@ -103,6 +103,12 @@ describe('buildIR', () => {
     expect(ir.hooks[1]?.run).toBe('./scripts/pre-commit-checks.sh');
   });
 
+  test('normalizes context file paths and drops repeats', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'minimal'));
+    source.config.context = ['./docs/architecture.md', 'docs\\architecture.md', 'CONTRIBUTING.md'];
+    expect(buildIR(source).contextFiles).toEqual(['docs/architecture.md', 'CONTRIBUTING.md']);
+  });
+
   test('passes targets through from config', async () => {
     const source = await loadAgentrc(join(FIXTURES, 'full'));
     const ir = buildIR(source);
@@ -123,3 +129,47 @@ describe('buildIR', () => {
     expect(ir.targets).toEqual(['claude', 'cursor']);
   });
 });
+
+describe('buildIR monorepo packages', () => {
+  test('scopes package rules to the package directory', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+    const ir = buildIR(source);
+
+    const style = ir.rules.find((r) => r.name === 'packages-api-style');
+    expect(style?.scope).toBe('glob');
+    expect(style?.globs).toEqual(['packages/api/**']);
+    expect(style?.package).toBe('packages/api');
+
+    const handlers = ir.rules.find((r) => r.name === 'packages-api-handlers');
+    expect(handlers?.globs).toEqual(['packages/api/src/handlers/**/*.ts']);
+
+    // Description-triggered package rules keep their description but gain the package scope
+    const components = ir.rules.find((r) => r.name === 'packages-web-components');
+    expect(components?.scope).toBe('glob');
+    expect(components?.description).toBe('Apply when building React components');
+  });
+
+  test('root rules stay unscoped', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+    const ir = buildIR(source);
+
+    const general = ir.rules.find((r) => r.name === 'general');
+    expect(general?.scope).toBe('always');
+    expect(general?.package).toBeUndefined();
+  });
+
+  test('merges package commands into the root list', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+    const ir = buildIR(source);
+    expect(ir.commands.map((c) => c.name)).toEqual(['migrate-db']);
+  });
+
+  test('throws on duplicate command names across packages', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+    const duplicate = source.packages?.[0]?.commands[0];
+    if (!duplicate) throw new Error('fixture is missing the api command');
+    source.commands.push({ ...duplicate, sourcePath: '.agentrc/commands/migrate-db.md' });
+
+    expect(() => buildIR(source)).toThrow('Duplicate command "migrate-db"');
+  });
+});
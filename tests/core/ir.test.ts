@@ -13,6 +13,7 @@ function makeSource(overrides: Partial<LoadedSource> = {}): LoadedSource {
     commands: overrides.commands ?? [],
     skills: overrides.skills ?? [],
     agents: overrides.agents ?? [],
+    metadata: overrides.metadata,
   };
 }
 
@@ -240,7 +241,7 @@ describe('buildIR edge cases', () => {
     expect(ir.targets).toEqual(['claude', 'cursor', 'windsurf']);
   });
 
-  test('hooks from config pass through to IR unchanged', () => {
+  test('hooks without variables pass through to IR unchanged', () => {
     const hooks = [
       {
         event: 'post-edit' as const,
@@ -258,8 +259,104 @@ describe('buildIR edge cases', () => {
     const ir = buildIR(source);
 
     expect(ir.hooks).toEqual(hooks);
-    // Verify hooks are the same reference (direct passthrough, not copied)
-    expect(ir.hooks).toBe(hooks);
+  });
+
+  test('interpolates config vars into rules, commands, agents, and hook run', () => {
+    const source = makeSource({
+      config: {
+        version: '1',
+        targets: [],
+        hooks: [{ event: 'post-edit', run: '{{pm}} run lint {file}', description: 'Lint' }],
+        vars: { pm: 'pnpm' },
+      },
+      rules: [
+        {
+          name: 'tooling',
+          parsed: { frontmatter: {}, content: 'Use {{pm}}, not npm. Literal: \\{{pm}}' },
+          sourcePath: 'rules/tooling.md',
+        },
+      ],
+      commands: [
+        {
+          name: 'install',
+          parsed: { frontmatter: {}, content: 'Run `{{ pm }} install`.' },
+          sourcePath: 'commands/install.md',
+        },
+      ],
+      agents: [
+        {
+          name: 'helper',
+          parsed: { frontmatter: {}, content: 'Prefer {{pm}} scripts.' },
+          sourcePath: 'agents/helper.md',
+        },
+      ],
+    });
+
+    const ir = buildIR(source);
+    expect(ir.rules[0]?.content).toBe('Use pnpm, not npm. Literal: {{pm}}');
+    expect(ir.commands[0]?.content).toBe('Run `pnpm install`.');
+    expect(ir.agents[0]?.content).toBe('Prefer pnpm scripts.');
+    expect(ir.hooks[0]?.run).toBe('pnpm run lint {file}');
+  });
+
+  test('built-in vars come from project metadata and config vars override them', () => {
+    const source = makeSource({
+      config: { version: '1', targets: [], hooks: [], vars: { 'git.branch': 'release' } },
+      rules: [
+        {
+          name: 'meta',
+          parsed: {
+            frontmatter: {},
+            content: '{{package.name}} {{package.scripts.test}} {{packageManager}} {{git.branch}}',
+          },
+          sourcePath: 'rules/meta.md',
+        },
+      ],
+      metadata: {
+        dirName: 'app',
+        packageJson: { name: 'acme-app', scripts: { test: 'vitest run' } },
+        lockfiles: ['pnpm-lock.yaml'],
+        git: { branch: 'main' },
+      },
+    });
+
+    expect(buildIR(source).rules[0]?.content).toBe('acme-app vitest run pnpm release');
+  });
+
+  test('builds rules that show GitHub Actions expressions or template code', () => {
+    const content = [
+      'Publish with `NODE_AUTH_TOKEN: $' + '{{ secrets.NPM_TOKEN }}`.',
+      '',
+      '```vue',
+      '<p>{{ message }}</p>',
+      '```',
+    ].join('\n');
+    const source = makeSource({
+      rules: [{ name: 'ci', parsed: { frontmatter: {}, content }, sourcePath: 'rules/ci.md' }],
+    });
+
+    expect(buildIR(source).rules[0]?.content).toBe(content);
+  });
+
+  test('throws listing every undefined variable and where it was used', () => {
+    const source = makeSource({
+      config: {
+        version: '1',
+        targets: [],
+        hooks: [{ event: 'post-edit', run: '{{formatter}} {file}', description: 'Format' }],
+      },
+      rules: [
+        {
+          name: 'r',
+          parsed: { frontmatter: {}, content: 'Run {{testCommand}}.' },
+          sourcePath: 'rules/r.md',
+        },
+      ],
+    });
+
+    expect(() => buildIR(source)).toThrow(
+      'Undefined variables: {{testCommand}} in rules/r.md; {{formatter}} in hook "Format"',
+    );
   });
 
   test('commands preserve frontmatter description and aliases', () => {
@@ -515,4 +612,87 @@ describe('buildIR edge cases', () => {
     expect(ir.rules[0]?.name).toBe('r1');
     expect(ir.rules[1]?.name).toBe('r2');
   });
+
+  test('copies targets and excludeTargets onto IR items', () => {
+    const source = makeSource({
+      rules: [
+        {
+          name: 'claude-tools',
+          parsed: { frontmatter: { targets: ['claude'] }, content: 'Use the Task tool.' },
+          sourcePath: 'rules/claude-tools.md',
+        },
+      ],
+      agents: [
+        {
+          name: 'reviewer',
+          parsed: { frontmatter: { excludeTargets: ['copilot'] }, content: 'Review code.' },
+          sourcePath: 'agents/reviewer.md',
+        },
+      ],
+    });
+    const ir = buildIR(source);
+
+    expect(ir.rules[0]?.targets).toEqual(['claude']);
+    expect(ir.rules[0]?.excludeTargets).toBeUndefined();
+    expect(ir.agents[0]?.excludeTargets).toEqual(['copilot']);
+  });
+
+  test('drops unknown target names in item frontmatter', () => {
+    const source = makeSource({
+      commands: [
+        {
+          name: 'deploy',
+          parsed: { frontmatter: { targets: ['claude', 'vim'] }, content: 'Deploy.' },
+          sourcePath: 'commands/deploy.md',
+        },
+      ],
+    });
+    expect(buildIR(source).commands[0]?.targets).toEqual(['claude']);
+  });
+
+  test('keeps nested rule names and rejects names that collide once flattened', () => {
+    const nested = {
+      name: 'backend/api',
+      parsed: { frontmatter: {}, content: 'nested' },
+      sourcePath: 'rules/backend/api.md',
+    };
+    expect(buildIR(makeSource({ rules: [nested] })).rules[0]?.name).toBe('backend/api');
+
+    const source = makeSource({
+      rules: [
+        nested,
+        {
+          name: 'backend-api',
+          parsed: { frontmatter: {}, content: 'flat' },
+          sourcePath: 'rules/backend-api.md',
+        },
+      ],
+    });
+    expect(() => buildIR(source)).toThrow(
+      'Rule "backend-api" in rules/backend-api.md collides with "backend/api" in rules/backend/api.md (both flatten to "backend-api")',
+    );
+  });
+
+  test('interpolates variables into MCP server fields', () => {
+    const source = makeSource({
+      config: {
+        version: '1',
+        targets: [],
+        hooks: [],
+        vars: { token: 'abc' },
+        mcpServers: [
+          { name: 'api', transport: 'http', url: 'https://x/mcp', headers: { Auth: '{{token}}' } },
+          { name: 'local', transport: 'stdio', command: 'run', args: ['{{missing}}'] },
+        ],
+      },
+    });
+    expect(() => buildIR(source)).toThrow('Undefined variables: {{missing}} in MCP server "local"');
+
+    const [api] = source.config.mcpServers ?? [];
+    if (!api) throw new Error('expected a server');
+    source.config.mcpServers = [api];
+    expect(buildIR(source).mcpServers).toEqual([
+      { name: 'api', transport: 'http', url: 'https://x/mcp', headers: { Auth: 'abc' } },
+    ]);
+  });
 });
@@ -123,6 +123,31 @@ describe('loadAgentrc', () => {
     await rm(tempDir, { recursive: true, force: true });
   });
 
+  test('loads nested rule directories with path-derived names', async () => {
+    const { mkdtemp, writeFile, mkdir, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    const rulesDir = join(tempDir, '.agentrc', 'rules');
+    await mkdir(join(rulesDir, 'backend', 'db'), { recursive: true });
+    await mkdir(join(rulesDir, '.drafts'), { recursive: true });
+    await writeFile(join(tempDir, '.agentrc', 'config.yaml'), 'version: "1"\n');
+    await writeFile(join(rulesDir, 'style.md'), 'Style');
+    await writeFile(join(rulesDir, 'backend', 'api.md'), 'API');
+    await writeFile(join(rulesDir, 'backend', 'db', 'migrations.md'), 'Migrations');
+    await writeFile(join(rulesDir, '.drafts', 'wip.md'), 'WIP');
+
+    const source = await loadAgentrc(tempDir);
+    expect(source.rules.map((r) => r.name)).toEqual([
+      'backend/api',
+      'backend/db/migrations',
+      'style',
+    ]);
+    expect(source.rules[0]?.sourcePath).toBe(join(rulesDir, 'backend', 'api.md'));
+
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
   test('populates sourcePath on loaded items', async () => {
     const source = await loadAgentrc(join(FIXTURES, 'full'));
 
@@ -147,3 +172,417 @@ describe('loadAgentrc', () => {
     }
   });
 });
+
+describe('loadAgentrc monorepo packages', () => {
+  test('discovers nested .agentrc/ directories from package.json workspaces', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+
+    const packagePaths = source.packages?.map((p) => p.path);
+    expect(packagePaths).toEqual(['packages/api', 'packages/web']);
+
+    const api = source.packages?.find((p) => p.path === 'packages/api');
+    expect(api?.rules.map((r) => r.name)).toEqual(['handlers', 'style']);
+    expect(api?.commands.map((c) => c.name)).toEqual(['migrate-db']);
+    expect(api?.rules[0]?.sourcePath).toContain('packages/api/.agentrc/rules/');
+  });
+
+  test('ignores .agentrc/ directories outside the workspace globs', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+    expect(source.packages?.some((p) => p.path.startsWith('tools/'))).toBe(false);
+  });
+
+  test('packages in config.yaml override workspace globs', async () => {
+    const { mkdtemp, cp, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await cp(join(FIXTURES, 'monorepo'), tempDir, { recursive: true });
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\npackages:\n  - tools/*\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      expect(source.packages?.map((p) => p.path)).toEqual(['tools/scratch']);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('single-project repos have no packages', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'full'));
+    expect(source.packages).toEqual([]);
+  });
+});
+
+describe('loadAgentrc extends', () => {
+  test('layers preset items under local ones', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+
+    expect(source.rules.map((r) => [r.name, r.layer])).toEqual([
+      ['naming', '../base'],
+      ['security', './presets/org'],
+      ['typescript', undefined],
+    ]);
+    expect(source.commands.map((c) => [c.name, c.layer])).toEqual([['review', './presets/org']]);
+    expect(source.agents.map((a) => [a.name, a.layer])).toEqual([['reviewer', '../base']]);
+  });
+
+  test('local definitions override inherited ones by name', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+    const typescript = source.rules.find((r) => r.name === 'typescript');
+    expect(typescript?.parsed.content).toContain('allows `any` in test files');
+    expect(typescript?.sourcePath).toContain('extends/.agentrc/rules/');
+  });
+
+  test('inherited hooks come before local hooks', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+    expect(source.config.hooks.map((h) => [h.description, h.layer])).toEqual([
+      ['Format edited files', './presets/org'],
+      ['Lint edited files', undefined],
+    ]);
+  });
+
+  test('local MCP servers replace inherited ones by name', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+    expect(source.config.mcpServers?.map((m) => [m.name, m.transport, m.layer])).toEqual([
+      ['tracker', 'http', './presets/org'],
+      ['docs', 'stdio', undefined],
+    ]);
+  });
+
+  test('permission rules from presets and local config add up', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+    expect(source.config.permissions).toEqual({
+      allow: [
+        { tool: 'shell', pattern: 'npm test' },
+        { tool: 'shell', pattern: 'npm run lint' },
+      ],
+      ask: [],
+      deny: [{ tool: 'read', pattern: '.env' }],
+    });
+  });
+
+  test('ignore patterns from presets and local config add up', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'extends'));
+    expect(source.config.ignore).toEqual(['.env', 'dist/', 'coverage/']);
+  });
+
+  test('resolves package names from node_modules', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const presetRules = join(
+        tempDir,
+        'node_modules',
+        '@acme',
+        'agentrc-preset',
+        '.agentrc',
+        'rules',
+      );
+      await mkdir(presetRules, { recursive: true });
+      await writeFile(join(presetRules, 'org.md'), 'Follow the org handbook.\n');
+      await mkdir(join(tempDir, '.agentrc'));
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\nextends:\n  - "@acme/agentrc-preset"\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      expect(source.rules.map((r) => [r.name, r.layer])).toEqual([['org', '@acme/agentrc-preset']]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('throws for presets that cannot be resolved', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await mkdir(join(tempDir, '.agentrc'));
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\nextends: ./missing\n',
+      );
+      await expect(loadAgentrc(tempDir)).rejects.toThrow('Cannot resolve extends "./missing"');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('throws on circular extends', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await mkdir(join(tempDir, '.agentrc'));
+      await mkdir(join(tempDir, 'a'));
+      await mkdir(join(tempDir, 'b'));
+      await writeFile(join(tempDir, '.agentrc', 'config.yaml'), 'version: "1"\nextends: ./a\n');
+      await writeFile(join(tempDir, 'a', 'config.yaml'), 'version: "1"\nextends: ../b\n');
+      await writeFile(join(tempDir, 'b', 'config.yaml'), 'version: "1"\nextends: ../a\n');
+      await expect(loadAgentrc(tempDir)).rejects.toThrow('Circular extends');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('loadAgentrc hook files', () => {
+  test('adds hooks/ files after config.yaml hooks, sorted by name', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const hooksDir = join(tempDir, '.agentrc', 'hooks');
+      const presetHooks = join(tempDir, 'preset', 'hooks');
+      await mkdir(hooksDir, { recursive: true });
+      await mkdir(presetHooks, { recursive: true });
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\nextends: ./preset\nhooks:\n  - event: stop\n    run: bun test\n    description: Test\n',
+      );
+      await writeFile(
+        join(hooksDir, 'lint.md'),
+        '---\nevent: pre-commit\nrun: hooks/lint.sh\ndescription: Lint\nblocking: true\n---\n\nRuns eslint on staged files.\n',
+      );
+      await writeFile(
+        join(hooksDir, 'format.yaml'),
+        'event: post-edit\nmatch: "**/*.ts"\nrun: npx prettier --write {file}\ndescription: Format\n',
+      );
+      await writeFile(join(hooksDir, 'lint.sh'), '#!/bin/sh\nnpx eslint .\n');
+      await writeFile(
+        join(presetHooks, 'guard.yml'),
+        'event: pre-tool-use\ntool: shell\nrun: ./guard.sh\ndescription: Guard\n',
+      );
+      await writeFile(join(hooksDir, 'README.md'), '# Hooks\n\nOne hook per file.\n');
+
+      const source = await loadAgentrc(tempDir);
+      expect(source.config.hooks).toEqual([
+        {
+          event: 'pre-tool-use',
+          tool: ['shell'],
+          run: './guard.sh',
+          description: 'Guard',
+          layer: './preset',
+        },
+        { event: 'stop', run: 'bun test', description: 'Test' },
+        {
+          event: 'post-edit',
+          match: '**/*.ts',
+          run: 'npx prettier --write {file}',
+          description: 'Format',
+        },
+        { event: 'pre-commit', run: 'hooks/lint.sh', description: 'Lint', blocking: true },
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("points preset hooks/ scripts at the preset's own directory", async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const presetHooks = join(tempDir, 'preset', 'hooks');
+      await mkdir(join(tempDir, '.agentrc'), { recursive: true });
+      await mkdir(presetHooks, { recursive: true });
+      await writeFile(
+        join(tempDir, '.agentrc', 'config.yaml'),
+        'version: "1"\nextends: ./preset\nhooks:\n  - event: stop\n    run: hooks/report.sh\n    description: Report\n',
+      );
+      await writeFile(
+        join(tempDir, 'preset', 'config.yaml'),
+        'version: "1"\nhooks:\n  - event: stop\n    run: hooks/notify.sh\n    description: Notify\n',
+      );
+      await writeFile(
+        join(presetHooks, 'lint.yaml'),
+        'event: post-edit\nrun: hooks/lint.sh {file}\ndescription: Lint\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      expect(source.config.hooks?.map((hook) => hook.run)).toEqual([
+        'preset/hooks/notify.sh',
+        'preset/hooks/lint.sh {file}',
+        'hooks/report.sh',
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('validates hook files like config.yaml hooks, naming the file', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const hooksDir = join(tempDir, '.agentrc', 'hooks');
+      await mkdir(hooksDir, { recursive: true });
+      await writeFile(join(tempDir, '.agentrc', 'config.yaml'), 'version: "1"\n');
+      await writeFile(join(hooksDir, 'notify.yaml'), 'event: on-save\nrun: a\ndescription: b\n');
+      await expect(loadAgentrc(tempDir)).rejects.toThrow(
+        '.agentrc/hooks/notify.yaml validation failed: /event: must be equal to one of the allowed values',
+      );
+
+      await writeFile(
+        join(hooksDir, 'notify.yaml'),
+        'event: stop\nrun: echo {file}\ndescription: b\n',
+      );
+      await expect(loadAgentrc(tempDir)).rejects.toThrow(
+        '.agentrc/hooks/notify.yaml validation failed: stop hooks have no {file}',
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('loadAgentrc partials', () => {
+  test('expands {{> name}} includes before parsing frontmatter', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'full'));
+    const testCommand = source.commands.find((c) => c.name === 'test');
+    const reviewer = source.agents.find((a) => a.name === 'reviewer');
+
+    expect(testCommand?.parsed.content).toContain('Prefer real fixtures over mocks.');
+    expect(testCommand?.parsed.content).not.toContain('{{>');
+    expect(reviewer?.parsed.content).toContain('Prefer real fixtures over mocks.');
+  });
+
+  test('does not load partials as rules', async () => {
+    const source = await loadAgentrc(join(FIXTURES, 'full'));
+    expect(source.rules.some((r) => r.name === 'testing-conventions')).toBe(false);
+  });
+
+  test('expands nested partials and partials in frontmatter-bearing skills', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const agentrc = join(tempDir, '.agentrc');
+      await mkdir(join(agentrc, 'partials', 'shared'), { recursive: true });
+      await mkdir(join(agentrc, 'skills', 'debug'), { recursive: true });
+      await writeFile(join(agentrc, 'config.yaml'), 'version: "1"\n');
+      await writeFile(join(agentrc, 'partials', 'outer.md'), 'Outer.\n{{> shared/inner}}\n');
+      await writeFile(join(agentrc, 'partials', 'shared', 'inner.md'), 'Inner.\n');
+      await writeFile(
+        join(agentrc, 'skills', 'debug', 'SKILL.md'),
+        '---\ndescription: Debug things\n---\n\n{{> outer}}\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      expect(source.skills[0]?.description).toBe('Debug things');
+      expect(source.skills[0]?.content).toBe('Outer.\nInner.');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('throws for missing partials, naming the including file', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await mkdir(join(tempDir, '.agentrc', 'rules'), { recursive: true });
+      await writeFile(join(tempDir, '.agentrc', 'config.yaml'), 'version: "1"\n');
+      await writeFile(join(tempDir, '.agentrc', 'rules', 'style.md'), '{{> nope}}\n');
+
+      await expect(loadAgentrc(tempDir)).rejects.toThrow(
+        /Partial "nope" not found \(included from .*rules\/style\.md\)/,
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('throws on include cycles, naming the including file', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const agentrc = join(tempDir, '.agentrc');
+      await mkdir(join(agentrc, 'rules'), { recursive: true });
+      await mkdir(join(agentrc, 'partials'));
+      await writeFile(join(agentrc, 'config.yaml'), 'version: "1"\n');
+      await writeFile(join(agentrc, 'partials', 'a.md'), '{{> b}}');
+      await writeFile(join(agentrc, 'partials', 'b.md'), '{{> a}}');
+      await writeFile(join(agentrc, 'rules', 'style.md'), '{{> a}}\n');
+
+      await expect(loadAgentrc(tempDir)).rejects.toThrow(
+        /Partial include cycle: a -> b -> a \(included from .*rules\/style\.md\)/,
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('monorepo packages can include root partials', async () => {
+    const { mkdtemp, cp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await cp(join(FIXTURES, 'monorepo'), tempDir, { recursive: true });
+      await mkdir(join(tempDir, '.agentrc', 'partials'));
+      await writeFile(join(tempDir, '.agentrc', 'partials', 'errors.md'), 'Never swallow errors.');
+      await writeFile(
+        join(tempDir, 'packages', 'web', '.agentrc', 'rules', 'errors.md'),
+        '{{> errors}}\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      const web = source.packages?.find((p) => p.path === 'packages/web');
+      const rule = web?.rules.find((r) => r.name === 'errors');
+      expect(rule?.parsed.content).toBe('Never swallow errors.');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('loadAgentrc frontmatter validation', () => {
+  test('fixtures have no frontmatter problems', async () => {
+    const { frontmatterProblems } = await import('../../src/core/loader.ts');
+    for (const fixture of ['full', 'minimal', 'monorepo', 'extends']) {
+      const root = join(FIXTURES, fixture);
+      expect(frontmatterProblems(await loadAgentrc(root), root)).toEqual([]);
+    }
+  });
+
+  test('records problems on items instead of throwing', async () => {
+    const { mkdtemp, mkdir, writeFile, rm } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+    const { frontmatterProblems } = await import('../../src/core/loader.ts');
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await mkdir(join(tempDir, '.agentrc', 'rules'), { recursive: true });
+      await writeFile(join(tempDir, '.agentrc', 'config.yaml'), 'version: "1"\n');
+      await writeFile(
+        join(tempDir, '.agentrc', 'rules', 'api.md'),
+        '---\npriority: urgent\n---\n\nBody\n',
+      );
+
+      const source = await loadAgentrc(tempDir);
+      // Lenient parsing still applies
+      expect(source.rules[0]?.parsed.frontmatter.priority).toBe('normal');
+      expect(frontmatterProblems(source, tempDir)).toEqual([
+        '.agentrc/rules/api.md:2: Invalid value for "priority": must be one of critical, high, normal, low',
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
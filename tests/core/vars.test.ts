@@ -0,0 +1,127 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { builtinVars, interpolate, readProjectMetadata } from '../../src/core/vars.ts';
+
+describe('interpolate', () => {
+  test('replaces known variables and reports missing ones', () => {
+    const result = interpolate('{{a}} and {{ b.c }} and {{missing}} {{missing}}', {
+      a: '1',
+      'b.c': '2',
+    });
+    expect(result.text).toBe('1 and 2 and {{missing}} {{missing}}');
+    expect(result.missing).toEqual(['missing']);
+  });
+
+  test('leaves escaped variables, partials, and single-brace placeholders alone', () => {
+    const result = interpolate('\\{{a}} {{> partial}} {file}', { a: '1' });
+    expect(result.text).toBe('{{a}} {{> partial}} {file}');
+    expect(result.missing).toEqual([]);
+  });
+
+  test('leaves GitHub Actions expressions alone', () => {
+    const expression = '$' + '{{ secrets.NPM_TOKEN }}';
+    const result = interpolate(`token: ${expression} for {{a}}`, { a: '1' });
+    expect(result.text).toBe(`token: ${expression} for 1`);
+    expect(result.missing).toEqual([]);
+  });
+
+  test('leaves unknown names in markdown code alone, but fills known ones', () => {
+    const text = [
+      'Run `{{a}}`. Vue binds with `{{ message }}`.',
+      '',
+      '```jinja',
+      '{{ user.name }} and {{a}}',
+      '```',
+      '',
+      '{{missing}}',
+    ].join('\n');
+    const result = interpolate(text, { a: '1' }, { markdown: true });
+    expect(result.text).toBe(
+      [
+        'Run `1`. Vue binds with `{{ message }}`.',
+        '',
+        '```jinja',
+        '{{ user.name }} and 1',
+        '```',
+        '',
+        '{{missing}}',
+      ].join('\n'),
+    );
+    expect(result.missing).toEqual(['missing']);
+  });
+});
+
+describe('builtinVars', () => {
+  test('derives package, package manager, git, and repo variables', () => {
+    const vars = builtinVars({
+      dirName: 'checkout',
+      packageJson: {
+        name: '@acme/web',
+        version: '2.1.0',
+        packageManager: 'yarn@4.1.0',
+        scripts: { test: 'jest', lint: 'eslint .' },
+      },
+      lockfiles: ['package-lock.json'],
+      git: { branch: 'main', remote: 'git@github.com:acme/web-app.git' },
+    });
+
+    expect(vars).toEqual({
+      'package.name': '@acme/web',
+      'package.version': '2.1.0',
+      'package.scripts.test': 'jest',
+      'package.scripts.lint': 'eslint .',
+      packageManager: 'yarn',
+      'git.branch': 'main',
+      'git.remote': 'git@github.com:acme/web-app.git',
+      'repo.name': 'web-app',
+    });
+  });
+
+  test('falls back to the lockfile and directory name', () => {
+    const vars = builtinVars({ dirName: 'checkout', lockfiles: ['bun.lock'] });
+    expect(vars).toEqual({ packageManager: 'bun', 'repo.name': 'checkout' });
+  });
+});
+
+describe('readProjectMetadata', () => {
+  test('reads package.json, lockfiles, and git HEAD/config without running git', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      await writeFile(
+        join(tempDir, 'package.json'),
+        JSON.stringify({ name: 'demo', scripts: { test: 'bun test' } }),
+      );
+      await writeFile(join(tempDir, 'pnpm-lock.yaml'), '');
+      await mkdir(join(tempDir, '.git'));
+      await writeFile(join(tempDir, '.git', 'HEAD'), 'ref: refs/heads/feature/vars\n');
+      await writeFile(
+        join(tempDir, '.git', 'config'),
+        '[core]\n\tbare = false\n[remote "origin"]\n\turl = https://github.com/acme/demo.git\n',
+      );
+
+      const metadata = await readProjectMetadata(tempDir);
+      expect(metadata.packageJson?.name).toBe('demo');
+      expect(metadata.lockfiles).toEqual(['pnpm-lock.yaml']);
+      expect(metadata.git).toEqual({
+        branch: 'feature/vars',
+        remote: 'https://github.com/acme/demo.git',
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('tolerates projects without package.json or git', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'agentrc-test-'));
+    try {
+      const metadata = await readProjectMetadata(tempDir);
+      expect(metadata.packageJson).toBeUndefined();
+      expect(metadata.git).toBeUndefined();
+      expect(metadata.lockfiles).toEqual([]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -13,3 +13,8 @@ export async function getMinimalIR() {
   const source = await loadAgentrc(join(FIXTURES, 'minimal'));
   return buildIR(source);
 }
+
+export async function getMonorepoIR() {
+  const source = await loadAgentrc(join(FIXTURES, 'monorepo'));
+  return buildIR(source);
+}
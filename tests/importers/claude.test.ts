@@ -221,17 +221,27 @@ describe('importClaude (standard)', () => {
         PostToolUse: [
           {
             matcher: 'Edit|Write|MultiEdit',
-            hooks: [{ type: 'command', command: 'echo "post-edit"' }],
+            hooks: [
+              {
+                type: 'command',
+                command: `.agentrc/bin/agentrc-hook --file tool_input.file_path --match '**/*.ts' -- 'npx prettier --write {file}'`,
+              },
+            ],
           },
           {
             matcher: 'Write',
             hooks: [{ type: 'command', command: 'echo "post-create"' }],
           },
         ],
-        Notification: [
+        PreToolUse: [
           {
-            matcher: 'Stop',
-            hooks: [{ type: 'command', command: 'echo "pre-commit"' }],
+            matcher: 'Bash',
+            hooks: [
+              {
+                type: 'command',
+                command: `.agentrc/bin/agentrc-hook --commit tool_input.command -- 'echo "pre-commit"'`,
+              },
+            ],
           },
         ],
       },
@@ -248,7 +258,8 @@ describe('importClaude (standard)', () => {
 
     const postEdit = result.hooks.find((h) => h.event === 'post-edit');
     expect(postEdit).toBeDefined();
-    expect(postEdit?.run).toBe('echo "post-edit"');
+    expect(postEdit?.run).toBe('npx prettier --write {file}');
+    expect(postEdit?.match).toBe('**/*.ts');
 
     const postCreate = result.hooks.find((h) => h.event === 'post-create');
     expect(postCreate).toBeDefined();
@@ -263,10 +274,10 @@ describe('importClaude (standard)', () => {
     await mkdir(join(tempDir, '.claude'), { recursive: true });
     const settings = {
       hooks: {
-        SessionStart: [
+        Notification: [
           {
-            matcher: 'startup|resume',
-            hooks: [{ type: 'command', command: 'echo "startup"' }],
+            matcher: '',
+            hooks: [{ type: 'command', command: 'echo "notified"' }],
           },
         ],
       },
@@ -281,19 +292,27 @@ describe('importClaude (standard)', () => {
 
     expect(result.hooks).toHaveLength(0);
     expect(result.warnings.length).toBeGreaterThan(0);
-    expect(result.warnings[0]).toContain('SessionStart');
+    expect(result.warnings[0]).toContain('Notification');
   });
 
-  test('Notification with empty matcher maps to pre-commit', async () => {
+  test('round-trips the expanded hook events with blocking and timeout', async () => {
     await mkdir(join(tempDir, '.claude'), { recursive: true });
     const settings = {
       hooks: {
-        Notification: [
+        SessionStart: [{ hooks: [{ type: 'command', command: 'bash setup.sh', timeout: 30 }] }],
+        UserPromptSubmit: [
           {
-            matcher: '',
-            hooks: [{ type: 'command', command: 'bash notify.sh' }],
+            hooks: [
+              { type: 'command', command: '.agentrc/bin/agentrc-hook --block -- check-prompt' },
+            ],
           },
         ],
+        PreToolUse: [
+          { matcher: 'Bash|mcp__.*', hooks: [{ type: 'command', command: 'audit' }] },
+          { matcher: 'WebFetch', hooks: [{ type: 'command', command: 'fetch-guard' }] },
+        ],
+        Stop: [{ hooks: [{ type: 'command', command: 'summarize' }] }],
+        SubagentStop: [{ hooks: [{ type: 'command', command: 'log-subagent' }] }],
       },
     };
     await writeFile(
@@ -304,8 +323,17 @@ describe('importClaude (standard)', () => {
 
     const result = await importClaude(tempDir, 'claude-standard');
 
-    expect(result.hooks).toHaveLength(1);
-    expect(result.hooks[0].event).toBe('pre-commit');
+    expect(result.hooks.map((h) => [h.event, h.run])).toEqual([
+      ['session-start', 'bash setup.sh'],
+      ['user-prompt-submit', 'check-prompt'],
+      ['pre-tool-use', 'audit'],
+      ['stop', 'summarize'],
+      ['subagent-stop', 'log-subagent'],
+    ]);
+    expect(result.hooks[0]?.timeout).toBe(30);
+    expect(result.hooks[1]?.blocking).toBe(true);
+    expect(result.hooks[2]?.tool).toEqual(['shell', 'mcp']);
+    expect(result.warnings.some((w) => w.includes('WebFetch'))).toBe(true);
   });
 
   test('returns empty result for non-existent subdirs', async () => {
@@ -365,7 +393,7 @@ describe('importClaude (plugin)', () => {
     expect(result.skills[0].files['SKILL.md']).toContain('Testing Skill');
   });
 
-  test('warns about unsupported plugin hook events (SessionStart)', async () => {
+  test('warns about unsupported plugin hook events (Notification)', async () => {
     const pluginDir = join(tempDir, 'plugins', 'my-plugin');
     await mkdir(join(pluginDir, 'commands'), { recursive: true });
     await mkdir(join(pluginDir, 'hooks'), { recursive: true });
@@ -416,13 +444,13 @@ describe('importClaude (plugin)', () => {
 
     const result = await importClaude(tempDir, 'claude-plugin');
 
-    // SessionStart should be warned about
-    expect(result.warnings.some((w) => w.includes('SessionStart'))).toBe(true);
+    // Notification has no agentrc equivalent and should be warned about
+    expect(result.warnings.some((w) => w.includes('Notification'))).toBe(true);
 
-    // Notification should be imported as pre-commit
+    // SessionStart maps to session-start
     expect(result.hooks).toHaveLength(1);
-    expect(result.hooks[0].event).toBe('pre-commit');
-    expect(result.hooks[0].run).toContain('notify.sh');
+    expect(result.hooks[0].event).toBe('session-start');
+    expect(result.hooks[0].run).toContain('session-start.sh');
   });
 
   test('copies hook scripts referenced in commands', async () => {
@@ -433,7 +461,7 @@ describe('importClaude (plugin)', () => {
     const pluginRoot = '$' + '{CLAUDE_PLUGIN_ROOT}';
     const hooksJson = {
       hooks: {
-        Notification: [
+        Stop: [
           {
             matcher: '',
             hooks: [
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { combineOutputs, unresolvedCollisions } from '../../src/output/collisions.ts';
+
+describe('combineOutputs', () => {
+  test('writes identical copies once, for every target that made them', () => {
+    const runner = { path: '.agentrc/bin/agentrc-hook', content: 'run\n', executable: true };
+    const { files, collisions } = combineOutputs(
+      [
+        { target: 'claude', files: [runner] },
+        { target: 'cursor', files: [runner] },
+      ],
+      'error',
+    );
+
+    expect(files).toEqual([{ ...runner, targets: ['claude', 'cursor'] }]);
+    expect(collisions).toEqual([]);
+  });
+
+  test('merges different markdown with target markers', () => {
+    const { files, collisions } = combineOutputs(
+      [
+        { target: 'codex', files: [{ path: 'AGENTS.md', content: '# Codex\n' }] },
+        { target: 'amp', files: [{ path: 'AGENTS.md', content: '# Amp\n' }] },
+        { target: 'roo', files: [{ path: 'AGENTS.md', content: '# Codex\n' }] },
+      ],
+      'merge',
+    );
+
+    expect(collisions).toEqual([
+      { path: 'AGENTS.md', targets: ['codex', 'roo', 'amp'], mergeable: true },
+    ]);
+    expect(files[0]?.content).toBe(
+      '<!-- agentrc target: codex, roo -->\n\n# Codex\n\n<!-- agentrc target: amp -->\n\n# Amp\n',
+    );
+    expect(unresolvedCollisions(collisions, 'merge')).toEqual([]);
+    expect(unresolvedCollisions(collisions, 'error')).toEqual(collisions);
+  });
+
+  test('leaves collisions outside markdown unresolved', () => {
+    const { collisions } = combineOutputs(
+      [
+        { target: 'a', files: [{ path: 'mcp.json', content: '{"a":1}' }] },
+        { target: 'b', files: [{ path: 'mcp.json', content: '{"b":1}' }] },
+      ],
+      'merge',
+    );
+
+    expect(unresolvedCollisions(collisions, 'merge')).toHaveLength(1);
+  });
+
+  test('keeps write flags when merging, and leaves versions with different flags unresolved', () => {
+    const merged = combineOutputs(
+      [
+        { target: 'a', files: [{ path: 'NOTES.md', content: 'A\n', keepExisting: true }] },
+        { target: 'b', files: [{ path: 'NOTES.md', content: 'B\n', keepExisting: true }] },
+      ],
+      'merge',
+    );
+    expect(merged.files[0]?.keepExisting).toBe(true);
+    expect(unresolvedCollisions(merged.collisions, 'merge')).toEqual([]);
+
+    const { collisions } = combineOutputs(
+      [
+        { target: 'a', files: [{ path: 'NOTES.md', content: 'A\n', keepExisting: true }] },
+        { target: 'b', files: [{ path: 'NOTES.md', content: 'B\n' }] },
+      ],
+      'merge',
+    );
+    expect(collisions[0]?.mergeable).toBe(false);
+    expect(unresolvedCollisions(collisions, 'merge')).toEqual(collisions);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { detectGitHookTarget, installGitHook, removeGitHook } from '../../src/output/git-hooks.ts';
+import { pathExists } from '../../src/utils.ts';
+
+async function createTempDir(): Promise<string> {
+  return mkdtemp(join(tmpdir(), 'agentrc-git-hooks-test-'));
+}
+
+describe('detectGitHookTarget', () => {
+  test('prefers lefthook, then husky, then .git/hooks', async () => {
+    const tempDir = await createTempDir();
+    try {
+      expect(await detectGitHookTarget(tempDir)).toBeNull();
+
+      await mkdir(join(tempDir, '.git'));
+      expect(await detectGitHookTarget(tempDir)).toEqual({
+        manager: 'git',
+        path: '.git/hooks/pre-commit',
+      });
+
+      await mkdir(join(tempDir, '.husky'));
+      expect(await detectGitHookTarget(tempDir)).toEqual({
+        manager: 'husky',
+        path: '.husky/pre-commit',
+      });
+
+      await writeFile(join(tempDir, 'lefthook.yml'), 'pre-commit: {}\n');
+      expect(await detectGitHookTarget(tempDir)).toEqual({
+        manager: 'lefthook',
+        path: 'lefthook.yml',
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('installGitHook / removeGitHook', () => {
+  test('creates an executable .git/hooks/pre-commit and deletes it on removal', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await installGitHook(tempDir, { manager: 'git', path: '.git/hooks/pre-commit' }, [
+        'bun test',
+      ]);
+
+      const hookPath = join(tempDir, '.git/hooks/pre-commit');
+      const content = await readFile(hookPath, 'utf-8');
+      expect(content).toStartWith('#!/bin/sh\n');
+      expect(content).toContain('# >>> agentrc pre-commit (do not edit) >>>\nbun test\n');
+      expect((await stat(hookPath)).mode & 0o111).toBe(0o111);
+
+      expect(await removeGitHook(tempDir, '.git/hooks/pre-commit')).toBe(true);
+      expect(await pathExists(hookPath)).toBe(false);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps the rest of an existing hook script', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const hookPath = join(tempDir, '.husky/pre-commit');
+      await mkdir(join(tempDir, '.husky'));
+      await writeFile(hookPath, '#!/bin/sh\nnpx lint-staged\nexit 0\n');
+
+      const target = { manager: 'husky', path: '.husky/pre-commit' } as const;
+      await installGitHook(tempDir, target, ['first']);
+      await installGitHook(tempDir, target, ['second']);
+
+      const content = await readFile(hookPath, 'utf-8');
+      // The block runs before anything that might exit, and is replaced in place
+      expect(content.indexOf('second')).toBeLessThan(content.indexOf('npx lint-staged'));
+      expect(content).not.toContain('first');
+
+      await removeGitHook(tempDir, '.husky/pre-commit');
+      expect(await readFile(hookPath, 'utf-8')).toBe('#!/bin/sh\nnpx lint-staged\nexit 0\n');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('adds and removes an agentrc command in lefthook config', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const original = 'pre-commit:\n  commands:\n    biome:\n      run: biome check # lint\n';
+      await writeFile(join(tempDir, 'lefthook.yml'), original);
+
+      await installGitHook(tempDir, { manager: 'lefthook', path: 'lefthook.yml' }, ['a', 'b']);
+      const content = await readFile(join(tempDir, 'lefthook.yml'), 'utf-8');
+      expect(content).toContain('    agentrc:\n      run: |\n        a\n        b\n');
+      expect(content).toContain('biome check # lint');
+
+      expect(await removeGitHook(tempDir, 'lefthook.yml')).toBe(true);
+      expect(await readFile(join(tempDir, 'lefthook.yml'), 'utf-8')).toBe(original);
+      expect(await removeGitHook(tempDir, 'lefthook.yml')).toBe(false);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
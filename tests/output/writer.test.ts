@@ -1,14 +1,16 @@
 import { describe, expect, test } from 'bun:test';
-import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { appendFile, mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import {
   addGeneratedHeader,
+  cleanGeneratedFiles,
   computeHash,
   hasGeneratedHeader,
   readManifest,
   writeOutputFiles,
 } from '../../src/output/writer.ts';
+import { pathExists } from '../../src/utils.ts';
 
 async function createTempDir(): Promise<string> {
   return mkdtemp(join(tmpdir(), 'agentrc-writer-test-'));
@@ -54,6 +56,29 @@ describe('addGeneratedHeader', () => {
     expect((parsed.__generated_by as string).startsWith('agentrc@')).toBe(true);
   });
 
+  test('adds the header after a shebang line', () => {
+    const result = addGeneratedHeader('#!/bin/sh\necho hi\n', 'hooks/Stop');
+    expect(result).toStartWith('#!/bin/sh\n# Generated by agentrc');
+    expect(result).toEndWith('echo hi\n');
+  });
+
+  test('puts the header inside frontmatter as a YAML comment', () => {
+    const result = addGeneratedHeader('---\npaths:\n  - "src/**"\n---\n\nBody\n', 'rule.md');
+    expect(result).toStartWith('---\n# Generated by agentrc');
+    expect(result).toEndWith('\npaths:\n  - "src/**"\n---\n\nBody\n');
+
+    const mdc = addGeneratedHeader('---\nalwaysApply: true\n---\n\nBody\n', 'rule.mdc');
+    expect(mdc).toStartWith('---\n# Generated by agentrc');
+  });
+
+  test('adds comment headers to .mdc, .toml and shell scripts', () => {
+    expect(addGeneratedHeader('Body\n', 'rule.mdc')).toStartWith('<!-- Generated by agentrc');
+    expect(addGeneratedHeader('model = "o3"\n', 'config.toml')).toStartWith(
+      '# Generated by agentrc',
+    );
+    expect(addGeneratedHeader('echo hi\n', 'check.sh')).toStartWith('# Generated by agentrc');
+  });
+
   test('returns content unchanged for unknown extensions', () => {
     const content = 'some content';
     const result = addGeneratedHeader(content, 'test.txt');
@@ -83,6 +108,11 @@ describe('hasGeneratedHeader', () => {
     expect(hasGeneratedHeader('# Just a title\n\nSome content')).toBe(false);
     expect(hasGeneratedHeader('{"key": "value"}')).toBe(false);
   });
+
+  test('falls back to the manifest hash', () => {
+    expect(hasGeneratedHeader('plain text', computeHash('plain text'))).toBe(true);
+    expect(hasGeneratedHeader('edited text', computeHash('plain text'))).toBe(false);
+  });
 });
 
 describe('writeOutputFiles', () => {
@@ -174,6 +204,77 @@ describe('writeOutputFiles', () => {
     }
   });
 
+  test('leaves a hand-written keepExisting file alone', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await writeFile(join(tempDir, 'CLAUDE.md'), '# My custom rules\n');
+
+      const files = [{ path: 'CLAUDE.md', content: '# Generated rules\n', keepExisting: true }];
+      const result = await writeOutputFiles(files, { rootDir: tempDir });
+
+      expect(await readFile(join(tempDir, 'CLAUDE.md'), 'utf-8')).toBe('# My custom rules\n');
+      expect(result.written).toEqual([]);
+      expect(result.backed_up).toEqual([]);
+      expect(result.warnings).toContain(
+        "CLAUDE.md was not generated by agentrc and was left unchanged (set managedBlocks: true to add agentrc's part to it)",
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('recognizes its own .mdc and header-less files on rebuild', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const files = [
+        { path: '.cursor/rules/style.mdc', content: '---\nalwaysApply: true\n---\n\nBody\n' },
+        { path: 'notes.txt', content: 'plain\n' },
+      ];
+      await writeOutputFiles(files, { rootDir: tempDir });
+      const result = await writeOutputFiles(files, { rootDir: tempDir });
+      expect(result.backed_up).toEqual([]);
+
+      await writeFile(join(tempDir, 'notes.txt'), 'edited by hand\n');
+      const edited = await writeOutputFiles(files, { rootDir: tempDir });
+      expect(edited.backed_up.length).toBe(1);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('writes into hand-written markdown as a managed block with managedBlocks', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await writeFile(join(tempDir, 'AGENTS.md'), '# Team notes\n\nAsk before deploying.\n');
+
+      const files = [{ path: 'AGENTS.md', content: '## Rules\n\nUse pnpm.\n' }];
+      const result = await writeOutputFiles(files, { rootDir: tempDir, managedBlocks: true });
+      expect(result.backed_up).toEqual([]);
+      expect(await readFile(join(tempDir, 'AGENTS.md'), 'utf-8')).toBe(
+        '# Team notes\n\nAsk before deploying.\n\n<!-- agentrc:start -->\n\n## Rules\n\nUse pnpm.\n\n<!-- agentrc:end -->\n',
+      );
+
+      // Later builds replace only the block, with or without the option
+      await writeOutputFiles([{ path: 'AGENTS.md', content: '## Rules\n\nUse bun.\n' }], {
+        rootDir: tempDir,
+      });
+      const rebuilt = await readFile(join(tempDir, 'AGENTS.md'), 'utf-8');
+      expect(rebuilt).toStartWith('# Team notes\n');
+      expect(rebuilt).toContain('Use bun.');
+      expect(rebuilt).not.toContain('Use pnpm.');
+
+      const manifest = await readManifest(tempDir);
+      expect(manifest?.files[0]?.block).toBe(true);
+
+      await cleanGeneratedFiles(tempDir);
+      expect(await readFile(join(tempDir, 'AGENTS.md'), 'utf-8')).toBe(
+        '# Team notes\n\nAsk before deploying.\n',
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test('deep-merges JSON files without agentrc header', async () => {
     const tempDir = await createTempDir();
     try {
@@ -213,6 +314,21 @@ describe('writeOutputFiles', () => {
     }
   });
 
+  test('makes executable output files executable', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const files = [
+        { path: '.clinerules/hooks/Stop', content: '#!/bin/sh\necho done\n', executable: true },
+      ];
+      await writeOutputFiles(files, { rootDir: tempDir });
+
+      const info = await stat(join(tempDir, '.clinerules/hooks/Stop'));
+      expect(info.mode & 0o111).toBe(0o111);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test('detects stale files from previous manifest', async () => {
     const tempDir = await createTempDir();
     try {
@@ -234,4 +350,119 @@ describe('writeOutputFiles', () => {
       await rm(tempDir, { recursive: true, force: true });
     }
   });
+
+  test('prunes stale files unless they were edited since', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const files1 = [
+        { path: '.cursor/rules/old.mdc', content: 'Old\n' },
+        { path: '.cursor/rules/edited.mdc', content: 'Edited\n' },
+        { path: '.cursor/rules/kept.mdc', content: 'Kept\n' },
+      ];
+      await writeOutputFiles(files1, { rootDir: tempDir });
+      await appendFile(join(tempDir, '.cursor/rules/edited.mdc'), 'My own note\n');
+
+      const files2 = [{ path: '.cursor/rules/kept.mdc', content: 'Kept\n' }];
+      const result = await writeOutputFiles(files2, { rootDir: tempDir, prune: true });
+
+      expect(result.pruned).toEqual(['.cursor/rules/old.mdc']);
+      expect(await pathExists(join(tempDir, '.cursor/rules/old.mdc'))).toBe(false);
+      expect(await pathExists(join(tempDir, '.cursor/rules/edited.mdc'))).toBe(true);
+      expect(result.warnings).toEqual([
+        'Stale generated file kept: .cursor/rules/edited.mdc (edited since it was generated)',
+      ]);
+
+      // Neither stays in the manifest
+      const manifest = await readManifest(tempDir);
+      expect(manifest?.files.map((f) => f.path)).toEqual(['.cursor/rules/kept.mdc']);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('writes ignore files as a managed block and clean removes only the block', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await writeFile(join(tempDir, '.cursorignore'), 'dist/\n');
+      const files = [
+        { path: '.cursorignore', content: '.env\nsecrets/\n', ignoreFile: true },
+        { path: '.clineignore', content: '.env\n', ignoreFile: true },
+      ];
+      const result = await writeOutputFiles(files, { rootDir: tempDir });
+
+      expect(result.backed_up).toEqual([]);
+      expect(await readFile(join(tempDir, '.cursorignore'), 'utf-8')).toBe(
+        'dist/\n\n# >>> agentrc managed (do not edit) >>>\n.env\nsecrets/\n# <<< agentrc managed <<<\n',
+      );
+      const manifest = await readManifest(tempDir);
+      expect(manifest?.files.every((f) => f.block)).toBe(true);
+
+      // Rebuilding replaces the block in place
+      await writeOutputFiles([{ path: '.cursorignore', content: '.env\n', ignoreFile: true }], {
+        rootDir: tempDir,
+      });
+      expect(await readFile(join(tempDir, '.cursorignore'), 'utf-8')).toBe(
+        'dist/\n\n# >>> agentrc managed (do not edit) >>>\n.env\n# <<< agentrc managed <<<\n',
+      );
+
+      await writeOutputFiles(files, { rootDir: tempDir });
+      expect(await cleanGeneratedFiles(tempDir)).toEqual(['.cursorignore', '.clineignore']);
+      expect(await readFile(join(tempDir, '.cursorignore'), 'utf-8')).toBe('dist/\n');
+      // A file holding nothing but the block is deleted
+      expect(stat(join(tempDir, '.clineignore'))).rejects.toThrow();
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps an existing YAML config and adds its keys in a managed block', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const config = join(tempDir, '.aider.conf.yml');
+      await writeFile(config, 'model: gpt-4o\nauto-commits: false\n');
+      const files = [
+        { path: '.aider.conf.yml', content: 'read:\n  - "CONVENTIONS.md"\n', yamlBlock: true },
+      ];
+      const result = await writeOutputFiles(files, { rootDir: tempDir });
+
+      expect(result.backed_up).toEqual([]);
+      expect(await readFile(config, 'utf-8')).toBe(
+        'model: gpt-4o\nauto-commits: false\n\n# >>> agentrc managed (do not edit) >>>\nread:\n  - "CONVENTIONS.md"\n# <<< agentrc managed <<<\n',
+      );
+
+      // A user's own read: list wins over agentrc's
+      await writeFile(config, 'model: gpt-4o\nread: NOTES.md\n');
+      const skipped = await writeOutputFiles(files, { rootDir: tempDir });
+      expect(skipped.written).toEqual([]);
+      expect(skipped.warnings[0]).toContain('.aider.conf.yml already sets read');
+      expect(await readFile(config, 'utf-8')).toBe('model: gpt-4o\nread: NOTES.md\n');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('a partial build keeps a file another target still produces', async () => {
+    const tempDir = await createTempDir();
+    try {
+      const agentsMd = [{ path: 'AGENTS.md', content: '# Rules\n', targets: ['codex', 'amp'] }];
+      await writeOutputFiles(agentsMd, { rootDir: tempDir });
+
+      // amp moves its file; codex, not in this build, still writes AGENTS.md
+      const moved = [{ path: 'docs/AGENTS.md', content: '# Rules\n', targets: ['amp'] }];
+      const result = await writeOutputFiles(moved, {
+        rootDir: tempDir,
+        prune: true,
+        targets: ['amp'],
+      });
+
+      expect(result.pruned).toEqual([]);
+      expect(result.warnings).toEqual([]);
+      expect(await pathExists(join(tempDir, 'AGENTS.md'))).toBe(true);
+      const manifest = await readManifest(tempDir);
+      expect(manifest?.files.find((f) => f.path === 'AGENTS.md')?.targets).toEqual(['codex']);
+      expect(await cleanGeneratedFiles(tempDir, ['codex'])).toEqual(['AGENTS.md']);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
 });